@@ -0,0 +1,142 @@
+// --- LOCAL WEBSOCKET RELAY ---
+// Lets an assistant and a magician on different devices of the same network share a session.
+// Clients connect to ws://<host>:<port>/?room=<pairing code>; every text message is passed on
+// to the other clients in the same room. The relay never looks inside the messages.
+//
+//   npm run relay              (port 8787)
+//   PORT=9000 npm run relay
+//
+// Only the parts of the WebSocket protocol the app needs are implemented: unfragmented text
+// frames, ping/pong and close.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Messages are a handful of card ids; anything much larger is not ours
+const MAX_PAYLOAD = 64 * 1024;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** @type {Map<string, Set<import('node:net').Socket>>} */
+const rooms = new Map();
+
+// The length takes 7 bits, or 16 bits after a 126, or 64 bits after a 127
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length <= 0xffff) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+}
+
+// Reads as many complete frames as `buffer` holds; returns them with the unread rest.
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let headerLength = 2;
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+    if (length > MAX_PAYLOAD) return { frames, rest: Buffer.alloc(0), tooLarge: true };
+
+    const maskLength = masked ? 4 : 0;
+    const total = headerLength + maskLength + length;
+    if (buffer.length - offset < total) break;
+
+    const payload = Buffer.from(buffer.subarray(offset + headerLength + maskLength, offset + total));
+    if (masked) {
+      const mask = buffer.subarray(offset + headerLength, offset + headerLength + 4);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ opcode, payload });
+    offset += total;
+  }
+  return { frames, rest: buffer.subarray(offset), tooLarge: false };
+}
+
+function leave(room, socket) {
+  const members = rooms.get(room);
+  if (!members) return;
+  members.delete(socket);
+  if (members.size === 0) rooms.delete(room);
+}
+
+const server = createServer((_, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('Card trick relay: connect with a WebSocket\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  const room = new URL(request.url ?? '/', 'http://relay').searchParams.get('room');
+  if (!key || !room) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', '',
+  ].join('\r\n'));
+
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  rooms.get(room).add(socket);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    const { frames, rest, tooLarge } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    if (tooLarge) {
+      socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+      return;
+    }
+    for (const { opcode, payload } of frames) {
+      if (opcode === OPCODE_TEXT) {
+        const frame = encodeFrame(OPCODE_TEXT, payload);
+        for (const other of rooms.get(room) ?? []) {
+          if (other !== socket && other.writable) other.write(frame);
+        }
+      } else if (opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, payload));
+      } else if (opcode === OPCODE_CLOSE) {
+        socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+      }
+    }
+  });
+
+  socket.on('close', () => leave(room, socket));
+  socket.on('error', () => leave(room, socket));
+});
+
+server.listen(PORT, () => {
+  console.log(`Card trick relay listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,58 @@
+// --- OFFLINE APP ---
+// Adds the service worker to the build: scripts/sw.js with the build's version and the list of
+// every file to precache, the bundle and everything in public/ (manifest and icons). Only the
+// client build gets it; the SSR build behind `npm run verify` is left alone.
+
+import { createHash } from 'node:crypto';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+import type { Plugin } from 'vite';
+
+const WORKER_SOURCE = new URL('./sw.js', import.meta.url);
+
+function listFiles(dir: string, root = dir): string[] {
+  let entries;
+  try {
+    entries = readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  return entries.flatMap(entry => {
+    const path = join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(path, root) : [relative(root, path).split(sep).join('/')];
+  });
+}
+
+export function offlineApp(): Plugin {
+  let publicDir = '';
+  return {
+    name: 'cardtrick-offline-app',
+    apply: (_config, env) => env.command === 'build' && !env.isSsrBuild,
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const publicFiles = publicDir ? listFiles(publicDir) : [];
+      const files = [...new Set(['index.html', ...Object.keys(bundle), ...publicFiles])]
+        .filter(file => file !== 'sw.js' && !file.endsWith('.map'))
+        .sort();
+
+      // The version changes with any file's contents, so each deploy replaces the cache
+      const hash = createHash('sha256');
+      for (const output of Object.values(bundle)) hash.update(output.type === 'chunk' ? output.code : output.source);
+      for (const file of publicFiles) hash.update(readFileSync(join(publicDir, file)));
+      const version = hash.digest('hex').slice(0, 12);
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: [
+          `const VERSION = ${JSON.stringify(version)};`,
+          `const PRECACHE = ${JSON.stringify(['./', ...files.map(file => `./${file}`)])};`,
+          '',
+          readFileSync(WORKER_SOURCE, 'utf8'),
+        ].join('\n'),
+      });
+    },
+  };
+}
@@ -0,0 +1,51 @@
+// --- SERVICE WORKER ---
+// Built by scripts/pwa.ts, which puts VERSION and PRECACHE (every file of the build, relative to
+// this worker) in front of this file. The whole app is cached on install, so once it has been
+// opened it starts with no network at all; a new build gets a new cache and the old ones go.
+
+/* global VERSION, PRECACHE */
+
+const CACHE = `cardtrick-${VERSION}`;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then(cache => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('cardtrick-') && key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Pages: the network when there is one, so a deploy shows up on the next load; the cached app otherwise
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match(new URL('index.html', self.registration.scope).href, { cacheName: CACHE })),
+    );
+    return;
+  }
+
+  // The app's own files, and fonts and stylesheets from elsewhere: from the cache, kept as they are first fetched
+  const cacheable = url.origin === self.location.origin || request.destination === 'font' || request.destination === 'style';
+  if (!cacheable) return;
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE }).then(cached => cached ?? fetch(request).then(response => {
+      if (response.ok || response.type === 'opaque') {
+        const copy = response.clone();
+        void caches.open(CACHE).then(cache => cache.put(request, copy));
+      }
+      return response;
+    })),
+  );
+});
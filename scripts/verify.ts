@@ -0,0 +1,152 @@
+// --- EXHAUSTIVE VERIFIER ---
+// Checks the classic protocol on all 2,598,960 five-card hands with every pair strategy, and
+// every click order that can change the result, and writes a report of how the hands were
+// encoded. Exits with status 1 if any hand fails to decode back to its hidden card.
+//
+//   npm run verify
+//   npm run verify -- --workers 4 --out report --format json
+//   npm run verify -- --limit 10000 --all-orderings --table smallest-position --order suit-first
+//
+// The hands are split into chunks handed out to worker threads; this same file is the worker.
+
+import { writeFileSync } from 'node:fs';
+import { availableParallelism } from 'node:os';
+import { parseArgs } from 'node:util';
+import { Worker, isMainThread, parentPort } from 'node:worker_threads';
+import {
+  type CardOrderId,
+  type Codebook,
+  type PairStrategyId,
+  type VerifyOptions,
+  type VerifyStats,
+  CARD_ORDERS,
+  OFFSET_TABLE_PRESETS,
+  PAIR_STRATEGY_LABELS,
+  TOTAL_HANDS,
+  emptyVerifyStats,
+  mergeVerifyStats,
+  verifyRange,
+} from '../src/protocol';
+
+const CHUNK_SIZE = 20000;
+
+interface Job {
+  from: number;
+  count: number;
+  options: VerifyOptions;
+}
+
+// --- WORKER ---
+
+if (!isMainThread) {
+  parentPort?.on('message', ({ from, count, options }: Job) => {
+    parentPort?.postMessage(verifyRange(from, count, options));
+  });
+} else {
+  main().catch(error => {
+    console.error(error);
+    process.exit(2);
+  });
+}
+
+// --- REPORT ---
+
+interface Report {
+  codebook: { table: string; order: CardOrderId };
+  allOrderings: boolean;
+  workers: number;
+  durationMs: number;
+  stats: VerifyStats;
+}
+
+function toCsv({ stats }: Report): string {
+  const rows: (string | number)[][] = [
+    ['strategy', 'metric', 'key', 'count'],
+    ['', 'hands', '', stats.hands],
+    ['', 'multi-pair-hands', '', stats.multiPairHands],
+    ['', 'failures', '', stats.failureCount],
+  ];
+  for (const id of Object.keys(stats.byStrategy) as PairStrategyId[]) {
+    const s = stats.byStrategy[id];
+    rows.push([id, 'checked', '', s.checked], [id, 'failed', '', s.failed], [id, 'swapped', '', s.swapped]);
+    s.offsets.forEach((n, i) => rows.push([id, 'offset', i + 1, n]));
+    for (const [suit, n] of Object.entries(s.suits)) rows.push([id, 'suit', suit, n]);
+  }
+  return rows.map(r => r.join(',')).join('\n') + '\n';
+}
+
+function printSummary({ stats, durationMs }: Report) {
+  const percent = (n: number, of: number) => `${((100 * n) / Math.max(of, 1)).toFixed(1)}%`;
+  console.log(`\n${stats.hands.toLocaleString()} hands in ${(durationMs / 1000).toFixed(1)}s`);
+  console.log(`More than one usable pair: ${stats.multiPairHands.toLocaleString()} (${percent(stats.multiPairHands, stats.hands)})`);
+  for (const id of Object.keys(stats.byStrategy) as PairStrategyId[]) {
+    const s = stats.byStrategy[id];
+    const offsets = s.offsets.map((n, i) => `+${i + 1}: ${percent(n, s.checked)}`).join('  ');
+    console.log(`${PAIR_STRATEGY_LABELS[id].padEnd(18)} ${s.checked.toLocaleString().padStart(11)} checked, ${s.failed} failed, swapped ${percent(s.swapped, s.checked)}  ${offsets}`);
+  }
+  for (const f of stats.failures) console.log(`FAIL ${f.strategy} [${f.hand.join(' ')}]: ${f.reason}`);
+  console.log(stats.failureCount === 0 ? 'Every hand decoded to its hidden card.' : `${stats.failureCount} failures.`);
+}
+
+// --- MAIN ---
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      workers: { type: 'string', default: String(availableParallelism()) },
+      out: { type: 'string', default: 'verify-report' },
+      format: { type: 'string', default: 'both' },
+      limit: { type: 'string' },
+      'all-orderings': { type: 'boolean', default: false },
+      table: { type: 'string', default: 'classic' },
+      order: { type: 'string', default: 'value-first' },
+    },
+  });
+
+  const workers = Math.max(1, Number(values.workers) || 1);
+  const total = Math.min(TOTAL_HANDS, Number(values.limit ?? TOTAL_HANDS) || TOTAL_HANDS);
+  if (!(values.table in OFFSET_TABLE_PRESETS) || !(values.order in CARD_ORDERS) || !['json', 'csv', 'both'].includes(values.format)) {
+    console.error(`Unknown option value; --table ${Object.keys(OFFSET_TABLE_PRESETS).join('|')}, --order ${Object.keys(CARD_ORDERS).join('|')}, --format json|csv|both`);
+    process.exit(2);
+  }
+  const table = values.table as keyof typeof OFFSET_TABLE_PRESETS;
+  const codebook: Codebook = { table: OFFSET_TABLE_PRESETS[table].table, order: values.order as CardOrderId };
+  const options: VerifyOptions = { codebook, allOrderings: values['all-orderings'] };
+
+  const started = Date.now();
+  let stats = emptyVerifyStats();
+  let next = 0;
+
+  // Each worker takes the next chunk as soon as it hands back the last one
+  await Promise.all(Array.from({ length: workers }, () => new Promise<void>((resolve, reject) => {
+    const worker = new Worker(new URL(import.meta.url));
+    const send = () => {
+      if (next >= total) {
+        worker.terminate().then(() => resolve(), reject);
+        return;
+      }
+      const job: Job = { from: next, count: Math.min(CHUNK_SIZE, total - next), options };
+      next += job.count;
+      worker.postMessage(job);
+    };
+    worker.on('message', (chunk: VerifyStats) => {
+      stats = mergeVerifyStats(stats, chunk);
+      process.stderr.write(`\r${stats.hands.toLocaleString()} / ${total.toLocaleString()} hands`);
+      send();
+    });
+    worker.on('error', reject);
+    send();
+  })));
+
+  const report: Report = {
+    codebook: { table, order: codebook.order },
+    allOrderings: options.allOrderings ?? false,
+    workers,
+    durationMs: Date.now() - started,
+    stats,
+  };
+  if (values.format !== 'csv') writeFileSync(`${values.out}.json`, JSON.stringify(report, null, 2) + '\n');
+  if (values.format !== 'json') writeFileSync(`${values.out}.csv`, toCsv(report));
+  printSummary(report);
+  process.exitCode = stats.failureCount === 0 && stats.hands === total ? 0 : 1;
+}
@@ -1,247 +1,419 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { Club, Diamond, Heart, Spade, Sparkles, RefreshCw, Eye } from 'lucide-react';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-
-// --- UTILS ---
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
+import { useEffect, useMemo, useReducer, useState } from 'react';
+import { motion, AnimatePresence, useReducedMotion } from 'framer-motion';
+import { ArrowLeft, RefreshCw, Eye, GraduationCap, HistoryIcon, Link2, Presentation, Redo2, Settings, Undo2 } from 'lucide-react';
+import {
+  type Card,
+  type Codebook,
+  type PairStrategy,
+  type PairStrategyId,
+  type ProtocolChoice,
+  type Suit,
+  type Trick,
+  type TrickConfig,
+  DEFAULT_VARIANT,
+  PAIR_STRATEGY_LABELS,
+  VARIANTS,
+  clickOrder,
+  closestPair,
+  DECKS,
+  buildDeck,
+  describeProtocolError,
+  explainClassic,
+  performTrick,
+  performerChoice,
+  suitPriority,
+  tableLayout,
+  trickHandSize,
+} from './protocol';
+import { cn, isTyping } from './utils';
+import { ArrangementText } from './components/ArrangementText';
+import { CardView } from './components/CardView';
+import { CardPicker } from './components/CardPicker';
+import { DealControls } from './components/DealControls';
+import { DecoderView } from './components/DecoderView';
+import { ExplainView } from './components/ExplainView';
+import { HandInput } from './components/HandInput';
+import { HistoryPanel } from './components/HistoryPanel';
+import { resolveCardStyle } from './components/cardThemes';
+import { Providers } from './components/Providers';
+import { cardLabel, handAnnouncement, placementLabel } from './components/labels';
+import { PracticeView } from './components/PracticeView';
+import { PairStrategyPicker } from './components/PairStrategyPicker';
+import { PresentationView } from './components/PresentationView';
+import { RemoteMagicianView } from './components/RemoteMagicianView';
+import { SessionPanel } from './components/SessionPanel';
+import { SettingsView } from './components/SettingsView';
+import { ShareLink } from './components/ShareLink';
+import { LOCALES, definiteCardName } from './i18n/locales';
+import { type LoggedPerformance, addToLog, markRevealed } from './performance/history';
+import { type PerformanceAction, type Phase, PHASE_ORDER, canRedo, canUndo, initialPerformance, performanceReducer } from './performance/machine';
+import { revealSpeech, sequenceSpeech, speak, stopSpeaking } from './performance/speech';
+import type { DealState } from './practice/deal';
+import {
+  type AppSettings,
+  type Mode,
+  MODES,
+  loadDealState,
+  loadPerformanceCode,
+  loadPerformanceLog,
+  loadSessionState,
+  loadSettings,
+  saveDealState,
+  savePerformanceCode,
+  savePerformanceLog,
+  saveSessionState,
+  saveSettings,
+} from './storage';
+import { type SharedPerformance, decodePerformance, describeShareError, encodePerformance, readShareHash, shareHash } from './share/shareCode';
+import { type SessionSettings, sequenceMessage } from './sync/session';
+import { useSyncSession } from './sync/useSyncSession';
+
+function resolvePairStrategy(id: PairStrategyId, chosenHidden: Card | null): PairStrategy | undefined {
+  switch (id) {
+    case 'click-order': return clickOrder;
+    case 'suit-priority': return suitPriority();
+    case 'closest-pair': return closestPair;
+    case 'performer-choice': return chosenHidden ? performerChoice(chosenHidden) : undefined;
+  }
 }
 
-// --- TYPES ---
-type Suit = 'clubs' | 'diamonds' | 'hearts' | 'spades';
-type CardValue = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13;
-
-interface Card {
-  id: string;
-  suit: Suit;
-  value: CardValue;
-  displayValue: string;
+function resolveTrickConfig(protocol: ProtocolChoice, codebook: Codebook, pairStrategy?: PairStrategy): TrickConfig {
+  if (protocol.protocol === 'general') return { ...protocol, order: codebook.order };
+  return { protocol: 'classic', pairStrategy, codebook };
 }
 
-// --- CONSTANTS ---
-const SUITS: Suit[] = ['spades', 'hearts', 'clubs', 'diamonds'];
-const SUIT_ICONS = {
-  spades: Spade,
-  hearts: Heart,
-  clubs: Club,
-  diamonds: Diamond,
-};
-const SUIT_COLORS = {
-  spades: 'text-black',
-  hearts: 'text-red-500',
-  clubs: 'text-black',
-  diamonds: 'text-red-400',
-};
+// A share link turned back into settings and a performance to load
+interface RestoredPerformance {
+  settings: AppSettings;
+  pairStrategyId: PairStrategyId;
+  load: Extract<PerformanceAction, { type: 'load' }>;
+}
 
-// Tie-breaker order: Clubs < Diamonds < Hearts < Spades
-const SUIT_ORDER = {
-  clubs: 0,
-  diamonds: 1,
-  hearts: 2,
-  spades: 3,
-};
+// Re-runs the arrangement from the shared hand, so a link never needs to carry it. A link that
+// cannot be read or performed keeps the current settings and reports why.
+function restorePerformance(hash: string, settings: AppSettings): RestoredPerformance {
+  const empty: RestoredPerformance = { settings, pairStrategyId: 'click-order', load: { type: 'load', hand: [] } };
+  const code = readShareHash(hash);
+  if (code === undefined) return empty;
+
+  const shared = decodePerformance(code);
+  if (!shared.ok) return { ...empty, load: { ...empty.load, error: describeShareError(shared.error) } };
+  const { deckId, protocol, pairStrategy: pairStrategyId, hand, hidden, phase } = shared.value;
+  const restored: RestoredPerformance = {
+    settings: { ...settings, deckId, protocol },
+    pairStrategyId,
+    load: { type: 'load', hand, chosenHidden: hidden ?? null },
+  };
+  if (phase === 'selection') return restored;
+
+  const fail = (error: string) => ({ ...restored, load: { ...restored.load, error } });
+  const pairStrategy = resolvePairStrategy(pairStrategyId, hidden ?? null);
+  if (protocol.protocol === 'classic' && !pairStrategy) return fail('This link does not say which card to hide');
+  const trick = performTrick(hand, buildDeck(DECKS[deckId]), resolveTrickConfig(protocol, settings.codebook, pairStrategy));
+  if (!trick.ok) return fail(describeProtocolError(trick.error));
+  return { ...restored, load: { ...restored.load, trick: trick.value, revealed: phase === 'revealed' } };
+}
 
-// --- LOGIC: Fitch Cheney ---
+// Each phase the performance moves forward to gets its own browser history entry, so the back
+// button steps back through reveal, stage and selection. `steps` counts the entries this app
+// pushed before this one, which is how far back the in-app "back to hand" button can go.
+interface HistoryEntry {
+  phase: Phase;
+  steps: number;
+}
 
-// Strict comparison value for sorting: Value primary, Suit secondary (for tie-breaking)
-// Actually, strict lexicographical sort usually puts Value first.
-// But we need a strict constraint. Let's use (Value-1)*4 + SuitOrder.
-const getCardRank = (c: Card) => (c.value - 1) * 4 + SUIT_ORDER[c.suit];
+const readHistoryEntry = (state: unknown): HistoryEntry | null => {
+  const entry = state as Partial<HistoryEntry> | null;
+  return entry && typeof entry.phase === 'string' && entry.phase in PHASE_ORDER && typeof entry.steps === 'number'
+    ? { phase: entry.phase, steps: entry.steps }
+    : null;
+};
 
-function getFitchCheneyArrangement(hand: Card[]) {
-  if (hand.length !== 5) throw new Error("Need exactly 5 cards");
+// --- MAIN APP ---
 
-  // 1. Find the suit with at least 2 cards (Pigeonhole)
-  const suitCounts: Record<Suit, Card[]> = { clubs: [], diamonds: [], hearts: [], spades: [] };
-  hand.forEach(c => suitCounts[c.suit].push(c));
+export default function App() {
+  // Initialize Deck, or the performance in the link the page was opened with, or the one left
+  // in progress last time
+  const [launch] = useState(() => {
+    const fromLink = readShareHash(window.location.hash) !== undefined;
+    const storedCode = loadPerformanceCode();
+    const hash = fromLink || storedCode === undefined ? window.location.hash : shareHash(storedCode);
+    return { fromLink, session: loadSessionState(), restored: restorePerformance(hash, loadSettings()) };
+  });
+  const { restored } = launch;
+  const [settings, setSettings] = useState<AppSettings>(restored.settings);
+  const { codebook, protocol, deckId } = settings;
+  const deck = useMemo(() => buildDeck(DECKS[deckId]), [deckId]);
+  const [mode, setMode] = useState<Mode>(launch.fromLink ? 'assistant' : launch.session.mode);
+  const [showSettings, setShowSettings] = useState(false);
+  const [performance, dispatch] = useReducer(performanceReducer, restored.load, load => performanceReducer(initialPerformance(), load));
+  const { phase, hand, chosenHidden, trick: solution, error: performError } = performance;
+  const isHiddenRevealed = phase === 'reveal';
+  const [activeSuit, setActiveSuit] = useState<Suit>(launch.session.activeSuit);
+  const [pairStrategyId, setPairStrategyId] = useState<PairStrategyId>(restored.pairStrategyId);
+  const [showExplain, setShowExplain] = useState(false);
+  // The arrangement shown full screen; a new arrangement or leaving the stage ends the presentation
+  const [presented, setPresented] = useState<Trick | null>(null);
+  const [dealState, setDealState] = useState<DealState>(() => loadDealState(restored.settings.deckId));
+  const [session, setSession] = useState<SessionSettings | null>(null);
+  const [showSession, setShowSession] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [log, setLog] = useState(loadPerformanceLog);
+  // When the performance on stage was logged, so its reveal can be recorded
+  const [loggedAt, setLoggedAt] = useState<number | null>(null);
+  const sync = useSyncSession(session);
+
+  const pairStrategy = resolvePairStrategy(pairStrategyId, chosenHidden);
+  const trickConfig = resolveTrickConfig(protocol, codebook, pairStrategy);
+  // Performer's choice needs a chosen card before the classic protocol can run
+  const isReady = protocol.protocol === 'general' || pairStrategy !== undefined;
+  const handSize = trickHandSize(protocol);
+  const variant = VARIANTS[protocol.protocol === 'general' ? protocol.variant ?? DEFAULT_VARIANT : DEFAULT_VARIANT];
+  // A screen linked as the magician only shows what the assistant sends
+  const isRemoteMagician = session?.role === 'magician';
+  const view = showSettings ? 'settings' : showSession ? 'session' : showHistory ? 'history' : isRemoteMagician ? 'remote' : mode;
+  const cardStyle = useMemo(() => resolveCardStyle(settings.appearance), [settings.appearance]);
+  const locale = LOCALES[settings.language.locale];
+  const { strings } = locale;
+  const explainSteps = solution ? explainClassic(hand, solution, codebook) : undefined;
+  // Reduced motion skips transforms (see main.tsx) and the staged delays on the table
+  const reduceMotion = useReducedMotion();
+  const staged = (delay: number) => (reduceMotion ? { duration: 0 } : { delay });
+  const cardInterval = settings.pacing.cardIntervalMs / 1000;
+  // The reveal button comes in once the whole row is down
+  const revealDelay = solution ? 0.7 + tableLayout(solution).length * cardInterval : 0;
+  // Read out by screen readers whenever it changes
+  const announcement = view !== 'assistant' ? ''
+    : !solution ? handAnnouncement(hand, handSize, locale)
+    : strings.sequenceLaidOut(tableLayout(solution).map((p, i) => placementLabel(p, i, solution, isHiddenRevealed, locale)).join('; '))
+      + (isHiddenRevealed ? `. ${strings.hiddenCardIs(definiteCardName(solution.hidden, locale))}` : '');
+
+  const shared: SharedPerformance = {
+    deckId,
+    protocol,
+    pairStrategy: pairStrategyId,
+    hand,
+    ...(chosenHidden && { hidden: chosenHidden }),
+    phase: phase === 'selection' ? 'selection' : isHiddenRevealed ? 'revealed' : 'stage',
+  };
+  // Hands too large for a share code simply get no link
+  const encoded = hand.length > 0 ? encodePerformance(shared) : undefined;
+  const shareCode = encoded?.ok ? encoded.value : null;
 
-  let sameSuitPair: Card[] = [];
-  for (const suit of SUITS) {
-    if (suitCounts[suit].length >= 2) {
-      sameSuitPair = suitCounts[suit].slice(0, 2); // Take first two found
-      break;
+  // Keep the address bar in step with the performance so a reload or bookmark brings it back,
+  // and give each step forward a history entry of its own
+  useEffect(() => {
+    const { pathname, search } = window.location;
+    const url = shareCode ? shareHash(shareCode) : pathname + search;
+    const entry = readHistoryEntry(window.history.state);
+    if (entry && PHASE_ORDER[phase] > PHASE_ORDER[entry.phase]) {
+      window.history.pushState({ phase, steps: entry.steps + 1 } satisfies HistoryEntry, '', url);
+    } else {
+      window.history.replaceState({ phase, steps: entry?.phase === phase ? entry.steps : 0 } satisfies HistoryEntry, '', url);
     }
-  }
+  }, [shareCode, phase]);
 
-  // 2. Determine Hidden vs Indicator
-  const [c1, c2] = sameSuitPair;
-  // Calculate distance on 13-clock
-  // dist(a, b) = (b - a + 13) % 13
-  const v1 = c1.value;
-  const v2 = c2.value;
-  const dist1to2 = (v2 - v1 + 13) % 13;
-  const dist2to1 = (v1 - v2 + 13) % 13;
-
-  let indicator: Card, hidden: Card, offset: number;
-
-  // We need the distance to be <= 6
-  if (dist1to2 > 0 && dist1to2 <= 6) {
-    indicator = c1;
-    hidden = c2;
-    offset = dist1to2;
-  } else {
-    indicator = c2;
-    hidden = c1;
-    offset = dist2to1;
-  }
+  useEffect(() => savePerformanceCode(shareCode), [shareCode]);
+  useEffect(() => saveSessionState({ mode, activeSuit }), [mode, activeSuit]);
 
-  // 3. Identify the remaining 3 cards 
-  const remaining = hand.filter(c => c.id !== indicator.id && c.id !== hidden.id);
-  // Sort them strictly to define Small, Medium, Large
-  const sortedRemaining = [...remaining].sort((a, b) => getCardRank(a) - getCardRank(b));
-  const [low, mid, high] = sortedRemaining;
-
-  // 4. Permute based on offset (1-6)
-  let codeCards: Card[] = [];
-  switch (offset) {
-    case 1: codeCards = [low, mid, high]; break;
-    case 2: codeCards = [low, high, mid]; break;
-    case 3: codeCards = [mid, low, high]; break;
-    case 4: codeCards = [mid, high, low]; break;
-    case 5: codeCards = [high, low, mid]; break;
-    case 6: codeCards = [high, mid, low]; break;
-    default: codeCards = [low, mid, high]; // Should not happen
-  }
+  useEffect(() => {
+    document.documentElement.lang = locale.id;
+  }, [locale]);
 
-  return { indicator, hidden, codeCards };
-}
+  // Spoken mode: the sequence once it is laid out, then the hidden card when it is revealed
+  useEffect(() => {
+    if (!settings.language.speak || !solution) return;
+    speak(phase === 'reveal' ? revealSpeech(solution, locale) : sequenceSpeech(solution, locale), locale);
+    return stopSpeaking;
+  }, [settings.language.speak, solution, phase, locale]);
 
+  // Back and forward buttons, and share links pasted into an open tab
+  useEffect(() => {
+    const onPopState = (event: PopStateEvent) => {
+      const entry = readHistoryEntry(event.state);
+      if (entry && PHASE_ORDER[entry.phase] < PHASE_ORDER[phase]) {
+        dispatch({ type: 'back', to: entry.phase });
+        return;
+      }
+      // Forward again, or a new link: the entry's share code says what to show
+      if (readShareHash(window.location.hash) === undefined) return;
+      const next = restorePerformance(window.location.hash, settings);
+      setSettings(next.settings);
+      setPairStrategyId(next.pairStrategyId);
+      dispatch(next.load);
+      setMode('assistant');
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [phase, settings]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) while picking cards; text fields keep their own undo
+  useEffect(() => {
+    if (view !== 'assistant' || phase !== 'selection') return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTyping(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) dispatch({ type: 'undo' });
+      else if (key === 'y' || (key === 'z' && event.shiftKey)) dispatch({ type: 'redo' });
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [view, phase]);
+
+  const handleCardClick = (card: Card) => dispatch({ type: 'toggle-card', card, handSize });
+
+  const handleHandTyped = (cards: Card[]) => dispatch({ type: 'set-hand', hand: cards });
+
+  const updateDealState = (next: DealState) => {
+    setDealState(next);
+    saveDealState(deckId, next);
+  };
 
-// --- COMPONENTS ---
-
-const CardView = React.memo(({ card, onClick, isSelected, isFaceDown, size = 'md', layoutId }: {
-  card?: Card;
-  onClick?: () => void;
-  isSelected?: boolean;
-  isFaceDown?: boolean;
-  size?: 'sm' | 'md' | 'lg';
-  layoutId?: string;
-}) => {
-  const finalLayoutId = layoutId || (card?.id ? `card-${card.id}` : undefined);
-
-  if (isFaceDown) {
-    return (
-      <motion.div
-        layoutId={finalLayoutId}
-        className={cn(
-          "relative rounded-xl border-2 border-indigo-900/50 bg-slate-900 shadow-xl overflow-hidden cursor-pointer",
-          size === 'sm' ? "w-12 h-16" : size === 'md' ? "w-16 h-24 md:w-28 md:h-40" : "w-32 h-48 md:w-40 md:h-60"
-        )}
-        onClick={onClick}
-      >
-        <div className="absolute inset-0 opacity-20 bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-indigo-500 via-purple-900 to-black" />
-        <div className="absolute inset-0 flex items-center justify-center">
-          <Sparkles className="text-indigo-400 opacity-50" size={size === 'sm' ? 16 : 24} />
-        </div>
-      </motion.div>
-    );
-  }
+  const handleDeal = (cards: Card[], next: DealState) => {
+    handleHandTyped(cards);
+    updateDealState(next);
+  };
 
-  if (!card) return null;
-
-  const Icon = SUIT_ICONS[card.suit];
-  const colorClass = SUIT_COLORS[card.suit];
-
-  return (
-    <motion.div
-      layoutId={finalLayoutId}
-      initial={{ scale: 0.8, opacity: 0 }}
-      animate={{ scale: 1, opacity: 1 }}
-      exit={{ scale: 0.8, opacity: 0 }}
-      whileHover={{ y: -4 }}
-      whileTap={{ scale: 0.95 }}
-      onClick={onClick}
-      className={cn(
-        "relative rounded-xl bg-slate-100 shadow-md flex flex-col items-center justify-center select-none cursor-pointer border transition-colors duration-200",
-        isSelected ? "border-indigo-500 ring-2 ring-indigo-500/50" : "border-slate-300",
-        size === 'sm' ? "w-12 h-16 text-xs" : size === 'md' ? "w-16 h-24 md:w-28 md:h-40 text-base md:text-xl" : "w-32 h-48 md:w-40 md:h-60 text-2xl md:text-4xl"
-      )}
-    >
-      <div className={cn("absolute top-1 left-1 font-bold", colorClass, size === 'lg' && "top-3 left-3")}>{card.displayValue}</div>
-      <Icon className={cn(colorClass, size === 'sm' ? "w-4 h-4" : size === 'md' ? "w-6 h-6" : "w-12 h-12")} />
-      <div className={cn("absolute bottom-1 right-1 font-bold rotate-180", colorClass, size === 'lg' && "bottom-3 right-3")}>{card.displayValue}</div>
-    </motion.div>
-  );
-});
+  const updateLog = (next: LoggedPerformance[]) => {
+    setLog(next);
+    savePerformanceLog(next);
+  };
 
-// --- MAIN APP ---
+  const performMagic = () => {
+    if (!isReady) return;
+    const result = performTrick(hand, deck, trickConfig);
+    if (!result.ok) {
+      dispatch({ type: 'failed', error: describeProtocolError(result.error) });
+      return;
+    }
+    dispatch({ type: 'performed', trick: result.value });
+    const performedAt = Date.now();
+    updateLog(addToLog(log, { performedAt, deckId, protocol, hand, trick: result.value, revealed: false }));
+    setLoggedAt(performedAt);
+    // Only the shown cards leave this screen; also kept for a magician who links up later
+    sync.publish(sequenceMessage(result.value));
+  };
 
-export default function App() {
-  const [deck, setDeck] = useState<Card[]>([]);
-  const [hand, setHand] = useState<Card[]>([]);
-  const [phase, setPhase] = useState<'selection' | 'stage' | 'reveal'>('selection');
-  const [activeSuit, setActiveSuit] = useState<Suit>('spades');
-  const [solution, setSolution] = useState<{ indicator: Card, hidden: Card, codeCards: Card[] } | null>(null);
-  const [isHiddenRevealed, setIsHiddenRevealed] = useState(false);
-
-  // Initialize Deck
-  useEffect(() => {
-    const newDeck: Card[] = [];
-    SUITS.forEach(suit => {
-      for (let v = 1; v <= 13; v++) {
-        let displayValue = `${v}`;
-        if (v === 1) displayValue = 'A';
-        if (v === 11) displayValue = 'J';
-        if (v === 12) displayValue = 'Q';
-        if (v === 13) displayValue = 'K';
-
-        newDeck.push({
-          id: `${suit}-${v}`,
-          suit,
-          value: v as CardValue,
-          displayValue,
-        });
-      }
-    });
-    setDeck(newDeck);
-  }, []);
+  const reveal = () => {
+    dispatch({ type: 'reveal' });
+    if (loggedAt !== null && phase === 'stage') updateLog(markRevealed(log, loggedAt));
+  };
 
-  const handleCardClick = (card: Card) => {
-    if (phase !== 'selection') return;
+  // Puts a logged performance back on the stage as it was laid out, with its own deck and protocol
+  const replay = (entry: LoggedPerformance) => {
+    const { detail } = entry.trick;
+    const strategy = detail.protocol === 'classic' ? detail.strategy : undefined;
+    setSettings({ ...settings, deckId: entry.deckId, protocol: entry.protocol });
+    setPairStrategyId(strategy ?? 'click-order');
+    dispatch({
+      type: 'load',
+      hand: entry.hand,
+      chosenHidden: strategy === 'performer-choice' ? entry.trick.hidden : null,
+      trick: entry.trick,
+    });
+    setLoggedAt(null);
+    setShowExplain(false);
+    setShowHistory(false);
+    setMode('assistant');
+  };
 
-    if (hand.find(h => h.id === card.id)) {
-      setHand(h => h.filter(c => c.id !== card.id));
+  // Through the browser history when the earlier entries are ours, so back and forward stay in step
+  const backToHand = () => {
+    const entry = readHistoryEntry(window.history.state);
+    if (entry && entry.phase === phase && entry.steps >= PHASE_ORDER[phase]) {
+      window.history.go(-PHASE_ORDER[phase]);
     } else {
-      if (hand.length < 5) {
-        setHand(h => [...h, card]);
-      }
+      dispatch({ type: 'back', to: 'selection' });
     }
-  };
-
-  const performMagic = () => {
-    if (hand.length !== 5) return;
-    const sol = getFitchCheneyArrangement(hand);
-    setSolution(sol);
-    setPhase('stage');
+    setShowExplain(false);
+    sync.publish({ type: 'clear' });
   };
 
   const reset = () => {
-    setHand([]);
-    setPhase('selection');
-    setSolution(null);
-    setIsHiddenRevealed(false);
+    dispatch({ type: 'reset' });
+    setLoggedAt(null);
+    setShowExplain(false);
+    sync.publish({ type: 'clear' });
   };
 
-  // Filtered Deck for Display
-  const visibleDeck = useMemo(() => {
-    return deck.filter(c => c.suit === activeSuit);
-  }, [deck, activeSuit]);
+  const applySettings = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+    setShowSettings(false);
+    // The card design, pacing and language do not change what the trick does
+    if (JSON.stringify([next.codebook, next.protocol, next.deckId]) === JSON.stringify([codebook, protocol, deckId])) return;
+    // An arrangement on stage was made with the old settings; keep the hand but send it back to selection.
+    // A different deck may not contain the selected cards at all.
+    dispatch({ type: 'load', hand: next.deckId === deckId ? hand.slice(0, trickHandSize(next.protocol)) : [] });
+    if (next.deckId !== deckId) {
+      const fresh = { seed: dealState.seed, dealt: 0 };
+      setDealState(fresh);
+      saveDealState(next.deckId, fresh);
+    }
+    sync.publish({ type: 'clear' });
+  };
 
-  return (
+  const screen = (
     <div className="min-h-screen bg-background text-white flex flex-col font-sans selection:bg-indigo-500/30">
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
 
       {/* HEADER */}
       <div className="p-4 border-b border-white/10 flex items-center justify-between bg-black/20 backdrop-blur-md sticky top-0 z-50">
         <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-400 to-purple-400">
           5 Card Magic
         </h1>
-        {phase !== 'selection' && (
-          <button onClick={reset} className="p-2 hover:bg-white/10 rounded-full transition-colors">
-            <RefreshCw size={20} className="text-slate-400" />
+        <div className="flex items-center gap-2">
+          {!isRemoteMagician && (
+            <div className="flex items-center gap-1 p-1 rounded-full bg-white/5 border border-white/10">
+              {MODES.map(id => (
+                <button
+                  key={id}
+                  onClick={() => setMode(id)}
+                  className={cn(
+                    "px-3 py-1 text-xs font-bold rounded-full transition-colors",
+                    mode === id ? "bg-indigo-600 text-white" : "text-slate-400 hover:text-white"
+                  )}
+                >
+                  {strings.modes[id]}
+                </button>
+              ))}
+            </div>
+          )}
+          {view === 'assistant' && phase !== 'selection' && (
+            <button onClick={reset} aria-label={strings.startOver} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+              <RefreshCw size={20} className="text-slate-400" />
+            </button>
+          )}
+          <button
+            onClick={() => { setShowSession(s => !s); setShowSettings(false); setShowHistory(false); }}
+            aria-label="Linked session"
+            aria-pressed={showSession}
+            className="p-2 hover:bg-white/10 rounded-full transition-colors"
+          >
+            <Link2
+              size={20}
+              className={session ? (sync.peerConnected ? "text-emerald-400" : "text-amber-400") : showSession ? "text-indigo-400" : "text-slate-400"}
+            />
+          </button>
+          <button
+            onClick={() => { setShowHistory(s => !s); setShowSettings(false); setShowSession(false); }}
+            aria-label="History"
+            aria-pressed={showHistory}
+            className="p-2 hover:bg-white/10 rounded-full transition-colors"
+          >
+            <HistoryIcon size={20} className={showHistory ? "text-indigo-400" : "text-slate-400"} />
+          </button>
+          <button
+            onClick={() => { setShowSettings(s => !s); setShowSession(false); setShowHistory(false); }}
+            aria-label="Settings"
+            aria-pressed={showSettings}
+            className="p-2 hover:bg-white/10 rounded-full transition-colors"
+          >
+            <Settings size={20} className={showSettings ? "text-indigo-400" : "text-slate-400"} />
           </button>
-        )}
+        </div>
       </div>
 
       {/* MAIN CONTENT AREA */}
@@ -249,8 +421,88 @@ export default function App() {
 
         <AnimatePresence mode="wait">
 
+          {/* SETTINGS */}
+          {view === 'settings' && (
+            <SettingsView
+              key="settings"
+              settings={settings}
+              onSave={applySettings}
+              onClose={() => setShowSettings(false)}
+            />
+          )}
+
+          {/* SESSION */}
+          {view === 'session' && (
+            <SessionPanel
+              key="session"
+              session={session}
+              status={sync.status}
+              peerConnected={sync.peerConnected}
+              onConnect={setSession}
+              onDisconnect={() => setSession(null)}
+              onOpenShareCode={code => { window.location.hash = shareHash(code); setShowSession(false); }}
+              onClose={() => setShowSession(false)}
+            />
+          )}
+
+          {/* HISTORY */}
+          {view === 'history' && (
+            <HistoryPanel
+              key="history"
+              log={log}
+              onReplay={replay}
+              onImport={entries => updateLog(addToLog(log, ...entries))}
+              onClear={() => { updateLog([]); setLoggedAt(null); }}
+            />
+          )}
+
+          {/* LINKED MAGICIAN SCREEN */}
+          {view === 'remote' && (
+            <motion.div
+              key="remote"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="flex-1 flex flex-col h-full"
+            >
+              <RemoteMagicianView
+                deck={deck}
+                config={resolveTrickConfig(protocol, codebook)}
+                sequence={sync.sequence}
+                status={sync.status}
+                peerConnected={sync.peerConnected}
+              />
+            </motion.div>
+          )}
+
+          {/* MAGICIAN: DECODER */}
+          {view === 'magician' && (
+            <motion.div
+              key="magician"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="flex-1 flex flex-col h-full"
+            >
+              <DecoderView deck={deck} config={resolveTrickConfig(protocol, codebook)} />
+            </motion.div>
+          )}
+
+          {/* PRACTICE */}
+          {view === 'practice' && (
+            <motion.div
+              key="practice"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="flex-1 flex flex-col h-full"
+            >
+              <PracticeView codebook={codebook} />
+            </motion.div>
+          )}
+
           {/* PHASE 1: SELECTION */}
-          {phase === 'selection' && (
+          {view === 'assistant' && phase === 'selection' && (
             <motion.div
               key="selection"
               initial={{ opacity: 0 }}
@@ -262,8 +514,30 @@ export default function App() {
               {/* Hand Preview (Sticky Top) */}
               <div className="p-4 bg-black/40 border-b border-white/5 shadow-2xl z-40">
                 <div className="flex items-center justify-between mb-2">
-                  <span className="text-sm font-medium text-slate-400">Your Hand ({hand.length}/5)</span>
-                  {hand.length === 5 && (
+                  <div className="flex items-center gap-1">
+                    <span className="text-sm font-medium text-slate-400">{strings.yourHand(hand.length, handSize)}</span>
+                    <button
+                      onClick={() => dispatch({ type: 'undo' })}
+                      disabled={!canUndo(performance)}
+                      title={`${strings.undo} (Ctrl+Z)`}
+                      aria-label={strings.undo}
+                      aria-keyshortcuts="Control+Z"
+                      className="ml-2 p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none"
+                    >
+                      <Undo2 size={14} />
+                    </button>
+                    <button
+                      onClick={() => dispatch({ type: 'redo' })}
+                      disabled={!canRedo(performance)}
+                      title={`${strings.redo} (Ctrl+Shift+Z)`}
+                      aria-label={strings.redo}
+                      aria-keyshortcuts="Control+Shift+Z"
+                      className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none"
+                    >
+                      <Redo2 size={14} />
+                    </button>
+                  </div>
+                  {hand.length === handSize && isReady && (
                     <motion.button
                       initial={{ scale: 0.8, opacity: 0 }}
                       animate={{ scale: 1, opacity: 1 }}
@@ -271,13 +545,15 @@ export default function App() {
                       onClick={performMagic}
                       className="px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-full shadow-[0_0_15px_rgba(99,102,241,0.5)]"
                     >
-                      PERFORM MAGIC
+                      {strings.performMagic}
                     </motion.button>
                   )}
                 </div>
-                <div className="h-24 flex items-center gap-3 overflow-x-auto pb-2 scrollbar-hide">
+                <DealControls deck={deck} state={dealState} handSize={handSize} onDeal={handleDeal} onStateChange={updateDealState} />
+                <HandInput deck={deck} hand={hand} handSize={handSize} onChange={handleHandTyped} />
+                <div role="group" aria-label="Your hand" className="h-24 flex items-center gap-3 overflow-x-auto pb-2 scrollbar-hide">
                   {hand.length === 0 && (
-                    <span className="text-slate-600 text-sm italic w-full text-center">Select 5 cards to begin...</span>
+                    <span className="text-slate-600 text-sm italic w-full text-center">{strings.selectCards(handSize)}</span>
                   )}
                   <AnimatePresence>
                     {hand.map(card => (
@@ -285,151 +561,190 @@ export default function App() {
                         key={card.id}
                         card={card}
                         onClick={() => handleCardClick(card)}
+                        label={`${cardLabel(card, locale)}, ${strings.inHand}`}
                         size="md"
                       />
                     ))}
                   </AnimatePresence>
                 </div>
+                {protocol.protocol === 'classic' && (
+                  <PairStrategyPicker
+                    value={pairStrategyId}
+                    onChange={id => { setPairStrategyId(id); if (chosenHidden) dispatch({ type: 'choose-hidden', card: null }); }}
+                    hand={hand}
+                    chosenHidden={chosenHidden}
+                    onChooseHidden={card => dispatch({ type: 'choose-hidden', card })}
+                  />
+                )}
+                {performError && <p role="alert" className="mt-2 text-xs text-red-400">{performError}</p>}
               </div>
 
-              {/* Suit Filter Tabs */}
-              <div className="grid grid-cols-4 border-b border-white/10 bg-black/20">
-                {SUITS.map(suit => {
-                  const Icon = SUIT_ICONS[suit];
-                  const isActive = activeSuit === suit;
-                  return (
-                    <button
-                      key={suit}
-                      onClick={() => setActiveSuit(suit)}
-                      className={cn(
-                        "flex justify-center items-center py-4 relative transition-all",
-                        isActive ? "bg-white/5 active-tab-glow" : "hover:bg-white/5 opacity-50 hover:opacity-100"
-                      )}
-                    >
-                      <Icon className={cn("w-6 h-6 transition-transform", isActive ? "scale-125 text-white" : ((suit === 'spades' || suit === 'clubs') ? 'text-zinc-400' : SUIT_COLORS[suit]))} />
-                      {isActive && (
-                        <motion.div
-                          layoutId="activeTab"
-                          className="absolute bottom-0 left-0 right-0 h-0.5 bg-indigo-500 shadow-[0_0_10px_#6366f1]"
-                        />
-                      )}
-                    </button>
-                  );
-                })}
-              </div>
-
-              {/* Deck Grid */}
-              <div className="flex-1 overflow-y-auto p-4">
-                <div className="grid grid-cols-4 gap-3 place-items-center pb-20">
-                  <AnimatePresence mode="popLayout">
-                    {visibleDeck.map((card, i) => {
-                      const isInHand = !!hand.find(c => c.id === card.id);
-                      return (
-                        <motion.div
-                          key={card.id}
-                          layout
-                          initial={{ opacity: 0, scale: 0.8 }}
-                          animate={{ opacity: isInHand ? 0.3 : 1, scale: isInHand ? 0.9 : 1 }}
-                          transition={{ delay: i * 0.02 }}
-                        >
-                          <CardView
-                            card={card}
-                            isSelected={isInHand}
-                            onClick={() => handleCardClick(card)}
-                            size="md" // Slightly smaller on grid
-                            layoutId={`grid-${card.id}`}
-                          />
-                        </motion.div>
-                      );
-                    })}
-                  </AnimatePresence>
-                </div>
-              </div>
+              <CardPicker
+                deck={deck}
+                activeSuit={activeSuit}
+                onSuitChange={setActiveSuit}
+                isSelected={card => !!hand.find(c => c.id === card.id)}
+                onCardClick={handleCardClick}
+              />
             </motion.div>
           )}
 
           {/* PHASE 2: STAGE & REVEAL */}
-          {phase === 'stage' && solution && (
+          {view === 'assistant' && phase !== 'selection' && solution && (
             <motion.div
               key="stage"
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
-              className="flex-1 flex flex-col items-center justify-center p-6 space-y-12 bg-gradient-to-b from-background to-black"
+              className="flex-1 flex flex-col lg:flex-row items-center justify-center gap-12 p-6 overflow-y-auto bg-gradient-to-b from-background to-black"
             >
               <div className="w-full max-w-md space-y-8">
 
-                {/* 1. The Sequence (Indicator + 3 Code Cards) */}
+                {/* 1. The Sequence (Indicator + Code Cards) */}
                 <div className="flex flex-col items-center w-full">
-                  <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase mb-6 opacity-80 text-center">The Sequence</h2>
-                  <div className="flex items-center justify-center gap-3 sm:gap-6">
-                    {/* Indicator */}
-                    <motion.div
-                      initial={{ opacity: 0, x: -20 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      transition={{ delay: 0.3 }}
-                    >
-                      <CardView card={solution.indicator} size="md" />
-                    </motion.div>
-
-
-
-                    {/* Code Cards */}
-                    {solution.codeCards.map((card, idx) => (
+                  <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase mb-6 opacity-80 text-center">{strings.theSequence}</h2>
+                  <div role="list" aria-label={strings.theSequence} className="flex flex-wrap items-center justify-center gap-3 sm:gap-6">
+                    {tableLayout(solution).map((placement, idx) => (
                       <motion.div
-                        key={card.id}
+                        key={placement.card.id}
+                        role="listitem"
                         initial={{ opacity: 0, x: -20 }}
                         animate={{ opacity: 1, x: 0 }}
-                        transition={{ delay: 0.5 + idx * 0.2 }}
+                        transition={staged(0.3 + idx * cardInterval)}
                       >
-                        <CardView card={card} size="md" />
+                        {placement.faceDown ? (
+                          <CardView
+                            card={isHiddenRevealed ? placement.card : undefined}
+                            isFaceDown={!isHiddenRevealed}
+                            onClick={isHiddenRevealed ? undefined : reveal}
+                            label={placementLabel(placement, idx, solution, isHiddenRevealed, locale) + (isHiddenRevealed ? '' : `; ${strings.pressToReveal}`)}
+                            size="md"
+                          />
+                        ) : (
+                          <CardView
+                            card={placement.card}
+                            orientation={variant.reversals ? (placement.reversed ? 'reversed' : 'upright') : undefined}
+                            label={placementLabel(placement, idx, solution, isHiddenRevealed, locale)}
+                            size="md"
+                          />
+                        )}
                       </motion.div>
                     ))}
                   </div>
-                </div>
-
-                {/* 3. The Reveal (Hidden Card) */}
-                <div className="flex flex-col items-center relative pt-8">
-                  <h2 className="text-indigo-400 text-sm font-bold tracking-widest uppercase mb-4 opacity-80 text-center">The Prediction</h2>
-
-                  <div className="relative w-32 h-48 md:w-40 md:h-60 cursor-pointer group perspective-1000" onClick={() => setIsHiddenRevealed(true)}>
-                    <motion.div
-                      animate={{ rotateY: isHiddenRevealed ? 180 : 0 }}
-                      transition={{ duration: 0.8, type: "spring" }}
-                      className="w-full h-full relative preserve-3d"
+                  <p className="mt-4 text-xs text-slate-500">
+                    {solution.detail.protocol === 'classic'
+                      ? solution.detail.strategy && strings.pairStrategy(PAIR_STRATEGY_LABELS[solution.detail.strategy])
+                      : strings.generalProtocol(handSize, deck.length, variant.name.toLowerCase(), solution.detail.code)}
+                  </p>
+                  <ArrangementText layout={tableLayout(solution)} showsOrientation={variant.reversals} />
+                  {shareCode && <ShareLink code={shareCode} />}
+                  <button
+                    onClick={backToHand}
+                    className="mt-2 flex items-center gap-2 px-3 py-1.5 text-xs rounded-full text-slate-400 hover:text-white hover:bg-white/10"
+                  >
+                    <ArrowLeft size={14} />
+                    {strings.backToHand}
+                  </button>
+                  {explainSteps && !showExplain && (
+                    <button
+                      onClick={() => setShowExplain(true)}
+                      className="mt-2 flex items-center gap-2 px-3 py-1.5 text-xs rounded-full text-slate-400 hover:text-white hover:bg-white/10"
                     >
-                      {/* Front (Face Down) */}
-                      <div className="absolute inset-0 backface-hidden">
-                        <CardView isFaceDown size="lg" />
-                      </div>
-
-                      {/* Back (Revealed) */}
-                      <div className="absolute inset-0 backface-hidden rotate-y-180">
-                        <CardView card={solution.hidden} size="lg" />
-                      </div>
-                    </motion.div>
-                  </div>
-
-                  {!isHiddenRevealed && (
+                      <GraduationCap size={14} />
+                      {strings.explainArrangement}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setPresented(solution)}
+                    className="mt-2 flex items-center gap-2 px-3 py-1.5 text-xs rounded-full text-slate-400 hover:text-white hover:bg-white/10"
+                  >
+                    <Presentation size={14} />
+                    {strings.presentFullScreen}
+                  </button>
+                  {solution.hiddenSlot !== undefined && !isHiddenRevealed && (
                     <motion.button
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
-                      transition={{ delay: 1.5 }}
-                      onClick={() => setIsHiddenRevealed(true)}
+                      transition={staged(revealDelay)}
+                      onClick={reveal}
                       className="mt-8 flex items-center gap-2 px-6 py-3 bg-white text-black font-bold rounded-full shadow-[0_0_30px_rgba(255,255,255,0.3)] hover:scale-105 active:scale-95 transition-transform"
                     >
                       <Eye size={18} />
-                      REVEAL
+                      {strings.reveal}
                     </motion.button>
                   )}
                 </div>
 
+                {/* 3. The Reveal (Hidden Card), unless it already lies face down in the sequence */}
+                {solution.hiddenSlot === undefined && (
+                  <div className="flex flex-col items-center relative pt-8">
+                    <h2 className="text-indigo-400 text-sm font-bold tracking-widest uppercase mb-4 opacity-80 text-center">{strings.thePrediction}</h2>
+
+                    <div
+                      role="button"
+                      tabIndex={0}
+                      aria-label={isHiddenRevealed ? `${cardLabel(solution.hidden, locale)}, ${strings.hiddenCard}` : `${strings.hiddenFaceDown}; ${strings.pressToReveal}`}
+                      onClick={reveal}
+                      onKeyDown={e => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); reveal(); } }}
+                      className="relative w-32 h-48 md:w-40 md:h-60 cursor-pointer group perspective-1000 rounded-xl outline-none focus-visible:ring-2 focus-visible:ring-indigo-400"
+                    >
+                      <motion.div
+                        aria-hidden
+                        animate={{ rotateY: isHiddenRevealed ? 180 : 0 }}
+                        transition={{ duration: 0.8, type: "spring" }}
+                        className="w-full h-full relative preserve-3d"
+                      >
+                        {/* Front (Face Down) */}
+                        <div className="absolute inset-0 backface-hidden">
+                          <CardView isFaceDown size="lg" />
+                        </div>
+
+                        {/* Back (Revealed) */}
+                        <div className="absolute inset-0 backface-hidden rotate-y-180">
+                          <CardView card={solution.hidden} size="lg" />
+                        </div>
+                      </motion.div>
+                    </div>
+
+                    {!isHiddenRevealed && (
+                      <motion.button
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={staged(revealDelay)}
+                        onClick={reveal}
+                        className="mt-8 flex items-center gap-2 px-6 py-3 bg-white text-black font-bold rounded-full shadow-[0_0_30px_rgba(255,255,255,0.3)] hover:scale-105 active:scale-95 transition-transform"
+                      >
+                        <Eye size={18} />
+                        {strings.reveal}
+                      </motion.button>
+                    )}
+                  </div>
+                )}
+
               </div>
+
+              {/* Explainer, beside the stage on wide screens and below it otherwise */}
+              {explainSteps && showExplain && (
+                <ExplainView hand={hand} steps={explainSteps} onClose={() => setShowExplain(false)} />
+              )}
             </motion.div>
           )}
 
         </AnimatePresence>
       </main>
+
+      {/* FULL-SCREEN PRESENTATION, over everything else */}
+      {view === 'assistant' && solution && presented === solution && (
+        <PresentationView
+          trick={solution}
+          showsOrientation={variant.reversals}
+          pacing={settings.pacing}
+          onReveal={reveal}
+          onExit={() => setPresented(null)}
+        />
+      )}
     </div>
   );
+
+  return <Providers cardStyle={cardStyle} locale={locale}>{screen}</Providers>;
 }
@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { Check, Copy, X } from 'lucide-react';
+import { type NotationStyle, type Placement, formatCard } from '../protocol';
+import { type CopyState, copyText } from '../utils';
+
+// Layout marks are only needed when the variant uses them
+function formatPlacement(placement: Placement, style: NotationStyle, showsOrientation: boolean): string {
+  if (placement.faceDown) return style === 'words' ? 'a face-down card' : '▢';
+  const card = formatCard(placement.card, style);
+  if (!showsOrientation || !placement.reversed) return card;
+  return style === 'words' ? `${card}, reversed` : `${card}↓`;
+}
+
+// --- ARRANGEMENT TEXT ---
+// The sequence on stage as text, short for copying and spelled out for reading aloud.
+
+export function ArrangementText({ layout, showsOrientation }: {
+  layout: Placement[];
+  showsOrientation: boolean;
+}) {
+  const [copied, setCopied] = useState<CopyState>('idle');
+  const short = layout.map(p => formatPlacement(p, 'symbols', showsOrientation)).join(' ');
+  const spoken = layout.map(p => formatPlacement(p, 'words', showsOrientation)).join('; ');
+
+  const copy = () => void copyText(short).then(setCopied);
+
+  return (
+    <div className="mt-4 w-full space-y-1 text-center">
+      <div className="flex items-center justify-center gap-2">
+        <span className="font-mono text-sm text-slate-300 select-all">{short}</span>
+        <button
+          onClick={copy}
+          onMouseLeave={() => setCopied('idle')}
+          aria-label={copied === 'failed' ? 'Copy failed; select the text instead' : 'Copy the sequence'}
+          title={copied === 'failed' ? 'Copy failed; select the text instead' : undefined}
+          className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10"
+        >
+          {copied === 'copied' ? <Check size={14} className="text-emerald-400" />
+            : copied === 'failed' ? <X size={14} className="text-red-400" />
+            : <Copy size={14} />}
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">{spoken}</p>
+    </div>
+  );
+}
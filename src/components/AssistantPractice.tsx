@@ -0,0 +1,91 @@
+import { useMemo, useState } from 'react';
+import { motion, Reorder } from 'framer-motion';
+import { Check, RefreshCw, X } from 'lucide-react';
+import { type Arrangement, type Card, type Codebook, type Result, HAND_SIZE, createDeck } from '../protocol';
+import { type AssistantMistake, checkArrangement, describeAssistantMistake, listValidArrangements } from '../practice/assistantDrill';
+import { dealHand } from '../practice/deal';
+import { cn } from '../utils';
+import { CardView } from './CardView';
+
+const SLOT_LABELS = ['Indicator', 'Code 1', 'Code 2', 'Code 3', 'Hidden'];
+
+// --- ASSISTANT PRACTICE ---
+// Deals five cards for the user to drag into place: indicator, three code cards, and the
+// card to hide last. Checking accepts any arrangement the classic protocol allows.
+
+export function AssistantPractice({ codebook }: { codebook: Codebook }) {
+  const deck = useMemo(() => createDeck(), []);
+  const [order, setOrder] = useState<Card[]>(() => dealHand(deck, HAND_SIZE));
+  const [result, setResult] = useState<Result<Arrangement, AssistantMistake> | null>(null);
+
+  const check = () => setResult(checkArrangement(order.slice(0, HAND_SIZE - 1), order[HAND_SIZE - 1], codebook));
+
+  const deal = () => {
+    setOrder(dealHand(deck, HAND_SIZE));
+    setResult(null);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto flex flex-col items-center p-6 space-y-8">
+      <div className="w-full max-w-md space-y-6">
+        <p className="text-sm text-slate-400 text-center">
+          Drag the cards into order: indicator first, then the three code cards, and the card to hide last.
+        </p>
+
+        <Reorder.Group axis="x" values={order} onReorder={o => { setOrder(o); setResult(null); }} className="flex justify-center gap-2">
+          {order.map((card, idx) => (
+            <Reorder.Item key={card.id} value={card} className="flex flex-col items-center gap-1 cursor-grab active:cursor-grabbing">
+              <div className={cn("rounded-xl", idx === HAND_SIZE - 1 && "opacity-60")}>
+                <CardView card={card} size="sm" layoutId={`arrange-${card.id}`} />
+              </div>
+              <span className="text-[10px] uppercase tracking-wider text-slate-500">{SLOT_LABELS[idx]}</span>
+            </Reorder.Item>
+          ))}
+        </Reorder.Group>
+
+        <div className="flex justify-center gap-3">
+          <button
+            onClick={check}
+            className="px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-full shadow-[0_0_15px_rgba(99,102,241,0.5)]"
+          >
+            CHECK
+          </button>
+          <button
+            onClick={deal}
+            className="flex items-center gap-1 px-4 py-1.5 bg-white/10 hover:bg-white/20 text-xs font-bold rounded-full transition-colors"
+          >
+            <RefreshCw size={14} />
+            DEAL AGAIN
+          </button>
+        </div>
+
+        {result && (
+          <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-4">
+            <p className={cn("flex items-start gap-2 text-sm", result.ok ? "text-emerald-400" : "text-red-400")}>
+              {result.ok ? <Check size={16} className="shrink-0 mt-0.5" /> : <X size={16} className="shrink-0 mt-0.5" />}
+              {result.ok
+                ? `Correct: the magician counts +${result.value.offset} from the indicator.`
+                : describeAssistantMistake(result.error, codebook)}
+            </p>
+
+            {!result.ok && (
+              <div className="space-y-2">
+                <h3 className="text-xs font-bold uppercase tracking-widest text-indigo-300">Valid arrangements</h3>
+                {listValidArrangements(order, codebook).map(a => (
+                  <div key={`${a.indicator.id}-${a.hidden.id}`} className="flex items-center gap-2">
+                    {[a.indicator, ...a.codeCards].map(c => (
+                      <CardView key={c.id} card={c} size="sm" layoutId={`valid-${a.indicator.id}-${a.hidden.id}-${c.id}`} />
+                    ))}
+                    <span className="text-xs text-slate-500 ml-2">hide</span>
+                    <CardView card={a.hidden} size="sm" layoutId={`valid-${a.indicator.id}-${a.hidden.id}-hidden`} />
+                    <span className="text-xs font-mono text-slate-400">+{a.offset}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { type KeyboardEvent, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { type Card, type Suit, SUIT_DEFINITIONS, deckSuits, suitLetter } from '../protocol';
+import { useLocale } from '../i18n/locales';
+import { cn, isTyping } from '../utils';
+import { CardView } from './CardView';
+import { SUIT_ICONS, suitTabColor } from './suits';
+
+const GRID_COLUMNS = 4;
+
+// Where an arrow key moves focus in the grid, or undefined for other keys
+function gridStep(key: string, index: number, count: number): number | undefined {
+  switch (key) {
+    case 'ArrowLeft': return Math.max(0, index - 1);
+    case 'ArrowRight': return Math.min(count - 1, index + 1);
+    case 'ArrowUp': return index >= GRID_COLUMNS ? index - GRID_COLUMNS : index;
+    case 'ArrowDown': return index + GRID_COLUMNS < count ? index + GRID_COLUMNS : index;
+    case 'Home': return 0;
+    case 'End': return count - 1;
+  }
+}
+
+// Suit filter tabs plus the deck grid, shared by every mode that asks the user to tap cards.
+// Keyboard: each suit's letter (S, H, C, D...) switches tabs, arrow keys move through the tabs
+// and the grid, and Enter or Space picks the focused card. An embedded picker leaves the letter
+// keys to the host page (`globalShortcuts={false}`).
+export function CardPicker({ deck, activeSuit: requestedSuit, onSuitChange, isSelected, onCardClick, globalShortcuts = true }: {
+  deck: Card[];
+  activeSuit: Suit;
+  onSuitChange: (suit: Suit) => void;
+  isSelected: (card: Card) => boolean;
+  onCardClick: (card: Card) => void;
+  globalShortcuts?: boolean;
+}) {
+  const locale = useLocale();
+  const suits = useMemo(() => deckSuits(deck), [deck]);
+  // Fall back to the first tab when the chosen suit is not part of this deck
+  const activeSuit = suits.includes(requestedSuit) ? requestedSuit : suits[0];
+
+  // Filtered Deck for Display
+  const visibleDeck = useMemo(() => {
+    return deck.filter(c => c.suit === activeSuit);
+  }, [deck, activeSuit]);
+
+  const gridId = useId();
+  const grid = useRef<HTMLDivElement>(null);
+  const tabs = useRef<HTMLDivElement>(null);
+  // Only the focused card is in the tab order, so Tab leaves the grid in one step
+  const [focusIndex, setFocusIndex] = useState(0);
+  const rovingIndex = Math.min(focusIndex, visibleDeck.length - 1);
+
+  useEffect(() => {
+    if (!globalShortcuts) return;
+    const onKeyDown = (event: globalThis.KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) return;
+      const suit = suits.find(s => suitLetter(s) === event.key.toUpperCase());
+      if (!suit) return;
+      event.preventDefault();
+      onSuitChange(suit);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [suits, onSuitChange, globalShortcuts]);
+
+  const onTabKeyDown = (event: KeyboardEvent) => {
+    const index = suits.indexOf(activeSuit);
+    const next = event.key === 'ArrowRight' ? (index + 1) % suits.length : event.key === 'ArrowLeft' ? (index + suits.length - 1) % suits.length : undefined;
+    if (next === undefined) return;
+    event.preventDefault();
+    onSuitChange(suits[next]);
+    tabs.current?.querySelectorAll<HTMLElement>('[role="tab"]')[next]?.focus();
+  };
+
+  const onGridKeyDown = (event: KeyboardEvent) => {
+    const next = gridStep(event.key, rovingIndex, visibleDeck.length);
+    if (next === undefined) return;
+    event.preventDefault();
+    setFocusIndex(next);
+    grid.current?.querySelectorAll<HTMLElement>('[role="button"]')[next]?.focus();
+  };
+
+  return (
+    <>
+      {/* Suit Filter Tabs */}
+      <div
+        ref={tabs}
+        role="tablist"
+        aria-label={locale.strings.suits}
+        onKeyDown={onTabKeyDown}
+        className="grid border-b border-white/10 bg-black/20"
+        style={{ gridTemplateColumns: `repeat(${suits.length}, minmax(0, 1fr))` }}
+      >
+        {suits.map(suit => {
+          const Icon = SUIT_ICONS[SUIT_DEFINITIONS[suit].symbol];
+          const isActive = activeSuit === suit;
+          return (
+            <button
+              key={suit}
+              role="tab"
+              aria-selected={isActive}
+              aria-controls={gridId}
+              aria-label={`${locale.suitNames[suit]} (${suitLetter(suit)})`}
+              aria-keyshortcuts={suitLetter(suit)}
+              tabIndex={isActive ? 0 : -1}
+              onClick={() => onSuitChange(suit)}
+              className={cn(
+                "flex justify-center items-center py-4 relative transition-all",
+                isActive ? "bg-white/5 active-tab-glow" : "hover:bg-white/5 opacity-50 hover:opacity-100"
+              )}
+            >
+              <Icon className={cn("w-6 h-6 transition-transform", isActive ? "scale-125 text-white" : suitTabColor(suit))} />
+              {isActive && (
+                <motion.div
+                  layoutId="activeTab"
+                  className="absolute bottom-0 left-0 right-0 h-0.5 bg-indigo-500 shadow-[0_0_10px_#6366f1]"
+                />
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Deck Grid */}
+      <div className="flex-1 overflow-y-auto p-4">
+        <div
+          ref={grid}
+          id={gridId}
+          role="tabpanel"
+          aria-label={`${locale.suitNames[activeSuit]}, ${locale.strings.cards(visibleDeck.length)}`}
+          onKeyDown={onGridKeyDown}
+          className="grid grid-cols-4 gap-3 place-items-center pb-20"
+        >
+          <AnimatePresence mode="popLayout">
+            {visibleDeck.map((card, i) => {
+              const selected = isSelected(card);
+              return (
+                <motion.div
+                  key={card.id}
+                  layout
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  animate={{ opacity: selected ? 0.3 : 1, scale: selected ? 0.9 : 1 }}
+                  transition={{ delay: i * 0.02 }}
+                >
+                  <CardView
+                    card={card}
+                    isSelected={selected}
+                    onClick={() => onCardClick(card)}
+                    tabIndex={i === rovingIndex ? 0 : -1}
+                    onFocus={() => setFocusIndex(i)}
+                    size="md" // Slightly smaller on grid
+                    layoutId={`grid-${card.id}`}
+                  />
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+        </div>
+      </div>
+    </>
+  );
+}
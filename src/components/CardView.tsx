@@ -0,0 +1,159 @@
+import React from 'react';
+import type { KeyboardEvent } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowUp } from 'lucide-react';
+import { type Card, SUIT_DEFINITIONS } from '../protocol';
+import { cn } from '../utils';
+import { cardIndex, useLocale } from '../i18n/locales';
+import { COURT_FIGURES, PIP_LAYOUTS, useCardStyle } from './cardThemes';
+import { cardLabel } from './labels';
+import { SUIT_ICONS } from './suits';
+
+type CardSize = 'sm' | 'md' | 'lg';
+
+const CARD_SIZES: Record<CardSize, string> = {
+  sm: "w-12 h-16",
+  md: "w-16 h-24 md:w-28 md:h-40",
+  lg: "w-32 h-48 md:w-40 md:h-60",
+};
+
+const TEXT_SIZES: Record<CardSize, string> = {
+  sm: "text-xs",
+  md: "text-base md:text-xl",
+  lg: "text-2xl md:text-4xl",
+};
+
+// The one symbol of the index layout and of aces
+const CENTRE_ICON_SIZES: Record<CardSize, string> = {
+  sm: "w-4 h-4",
+  md: "w-6 h-6",
+  lg: "w-12 h-12",
+};
+
+const PIP_SIZES: Record<CardSize, string> = {
+  sm: "w-2 h-2",
+  md: "w-2.5 h-2.5 md:w-4 md:h-4",
+  lg: "w-4 h-4 md:w-6 md:h-6",
+};
+
+// `orientation` marks the card's top edge so a reversed card can be told apart; omit it when orientation carries no meaning.
+// A card with `onClick` is a button for the keyboard and screen readers; `label` replaces the name read out.
+// Faces and backs follow the card style in CardStyleContext; indices and labels follow LocaleContext.
+export const CardView = React.memo(({ card, onClick, isSelected, isFaceDown, orientation, size = 'md', layoutId, label, tabIndex, onFocus }: {
+  card?: Card;
+  onClick?: () => void;
+  isSelected?: boolean;
+  isFaceDown?: boolean;
+  orientation?: 'upright' | 'reversed';
+  size?: CardSize;
+  layoutId?: string;
+  label?: string;
+  tabIndex?: number;
+  onFocus?: () => void;
+}) => {
+  const { theme, back, ink } = useCardStyle();
+  const locale = useLocale();
+  const finalLayoutId = layoutId || (card?.id ? `card-${card.id}` : undefined);
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (event.key !== 'Enter' && event.key !== ' ') return;
+    event.preventDefault();
+    onClick?.();
+  };
+  const a11y = {
+    role: onClick ? 'button' : 'img',
+    'aria-label': label ?? (isFaceDown || !card ? locale.strings.faceDownCard : cardLabel(card, locale, orientation === 'reversed')),
+    ...(onClick && { tabIndex: tabIndex ?? 0, onKeyDown, onFocus }),
+    ...(onClick && isSelected !== undefined && { 'aria-pressed': isSelected }),
+  };
+  const focusRing = "outline-none focus-visible:ring-2 focus-visible:ring-indigo-400 focus-visible:ring-offset-2 focus-visible:ring-offset-background";
+
+  if (isFaceDown) {
+    const Emblem = back.emblem;
+    return (
+      <motion.div
+        layoutId={finalLayoutId}
+        {...a11y}
+        className={cn("relative rounded-xl border-2 shadow-xl overflow-hidden cursor-pointer", focusRing, CARD_SIZES[size])}
+        style={{ backgroundColor: back.base, backgroundImage: back.pattern, borderColor: back.border }}
+        onClick={onClick}
+      >
+        {Emblem && (
+          <div className="absolute inset-0 flex items-center justify-center" aria-hidden>
+            <Emblem style={{ color: back.emblemColor }} size={size === 'sm' ? 16 : 24} />
+          </div>
+        )}
+      </motion.div>
+    );
+  }
+
+  if (!card) return null;
+
+  return (
+    <motion.div
+      layoutId={finalLayoutId}
+      initial={{ scale: 0.8, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1, rotate: orientation === 'reversed' ? 180 : 0 }}
+      exit={{ scale: 0.8, opacity: 0 }}
+      whileHover={{ y: -4 }}
+      whileTap={{ scale: 0.95 }}
+      onClick={onClick}
+      {...a11y}
+      className={cn(
+        "relative rounded-xl shadow-md flex flex-col items-center justify-center select-none cursor-pointer border transition-colors duration-200",
+        focusRing,
+        isSelected && "border-indigo-500 ring-2 ring-indigo-500/50",
+        CARD_SIZES[size],
+        TEXT_SIZES[size]
+      )}
+      style={{ backgroundColor: theme.paper, color: ink(card.suit), ...(!isSelected && { borderColor: theme.border }) }}
+    >
+      {orientation && (
+        <ArrowUp className={cn("absolute top-0.5 left-1/2 -translate-x-1/2 text-indigo-500", size === 'sm' ? "w-3 h-3" : "w-4 h-4")} />
+      )}
+      <div className={cn("absolute top-1 left-1 font-bold", size === 'lg' && "top-3 left-3")}>{cardIndex(card, locale)}</div>
+      <CardFace card={card} size={size} />
+      <div className={cn("absolute bottom-1 right-1 font-bold rotate-180", size === 'lg' && "bottom-3 right-3")}>{cardIndex(card, locale)}</div>
+    </motion.div>
+  );
+});
+
+// The middle of the card in the theme's layout. Small cards and jokers always use the single symbol.
+function CardFace({ card, size }: { card: Card; size: CardSize }) {
+  const { theme } = useCardStyle();
+  const locale = useLocale();
+  const Icon = SUIT_ICONS[SUIT_DEFINITIONS[card.suit].symbol];
+  const pips = PIP_LAYOUTS[card.value];
+  const Figure = COURT_FIGURES[card.value];
+
+  if (theme.face === 'index' || size === 'sm' || card.suit === 'jokers' || (!pips && !Figure)) {
+    return <Icon className={CENTRE_ICON_SIZES[size]} aria-hidden />;
+  }
+
+  if (Figure) {
+    return (
+      <div
+        className="absolute inset-x-[22%] inset-y-[14%] rounded-md border flex flex-col items-center justify-center gap-1 font-serif font-bold"
+        style={{ borderColor: 'currentColor' }}
+        aria-hidden
+      >
+        {theme.court === 'figures' ? <Figure className={CENTRE_ICON_SIZES[size]} /> : <span>{cardIndex(card, locale)}</span>}
+        <Icon className={PIP_SIZES[size]} fill="currentColor" />
+      </div>
+    );
+  }
+
+  if (pips.length === 1) return <Icon className={CENTRE_ICON_SIZES[size]} fill="currentColor" aria-hidden />;
+
+  return (
+    <div className="absolute inset-x-[30%] inset-y-[18%]" aria-hidden>
+      {pips.map(([x, y], i) => (
+        <Icon
+          key={i}
+          className={cn("absolute -translate-x-1/2 -translate-y-1/2", y > 50 && "rotate-180", PIP_SIZES[size])}
+          style={{ left: `${x}%`, top: `${y}%` }}
+          fill="currentColor"
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Layers, Shuffle } from 'lucide-react';
+import type { Card } from '../protocol';
+import { type DealState, cardsLeft, createSeed, dealFromDeck, formatSeed, parseSeed } from '../practice/deal';
+
+// --- DEAL FROM DECK ---
+// Shuffles the deck from a seed and deals the hand off the top. The counter shows what is left
+// of the deck; dealing with too few cards left reshuffles. Typing a seed replays a run.
+
+export function DealControls({ deck, state, handSize, onDeal, onStateChange }: {
+  deck: Card[];
+  state: DealState;
+  handSize: number;
+  onDeal: (hand: Card[], state: DealState) => void;
+  onStateChange: (state: DealState) => void;
+}) {
+  const left = cardsLeft(deck, state);
+
+  const deal = () => {
+    const next = dealFromDeck(deck, state, handSize);
+    onDeal(next.hand, next.state);
+  };
+
+  const applySeed = (input: HTMLInputElement) => {
+    const seed = parseSeed(input.value);
+    if (seed === undefined || seed === state.seed) {
+      input.value = formatSeed(state.seed);
+      return;
+    }
+    onStateChange({ seed, dealt: 0 });
+  };
+
+  return (
+    <div className="mb-2 flex items-center gap-2 text-xs text-slate-400">
+      <button
+        onClick={deal}
+        className="flex items-center gap-1 px-3 py-1 font-bold rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors"
+      >
+        <Layers size={14} />
+        {left < handSize ? 'RESHUFFLE & DEAL' : 'DEAL'}
+      </button>
+      <span className={left < handSize ? "text-amber-400" : undefined}>{left}/{deck.length} left</span>
+      <label className="ml-auto flex items-center gap-1">
+        Seed
+        <input
+          key={state.seed}
+          defaultValue={formatSeed(state.seed)}
+          onBlur={e => applySeed(e.currentTarget)}
+          onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          spellCheck={false}
+          className="w-20 rounded-md border border-white/10 bg-white/5 px-1.5 py-0.5 font-mono uppercase text-slate-200 outline-none focus:border-indigo-500"
+        />
+      </label>
+      <button
+        onClick={() => onStateChange({ seed: createSeed(), dealt: 0 })}
+        className="p-1.5 rounded-full hover:bg-white/10 hover:text-white"
+      >
+        <Shuffle size={14} />
+      </button>
+    </div>
+  );
+}
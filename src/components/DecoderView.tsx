@@ -0,0 +1,299 @@
+import { type ReactNode, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RefreshCw, RotateCw } from 'lucide-react';
+import {
+  type Card,
+  type CardOrderId,
+  type Codebook,
+  type Suit,
+  type Trick,
+  type TrickConfig,
+  type VariantDefinition,
+  CARD_ORDERS,
+  CLASSIC_CODEBOOK,
+  DEFAULT_VARIANT,
+  SUIT_DEFINITIONS,
+  VARIANTS,
+  describeCard,
+  describeProtocolError,
+  formatPermutation,
+  revealTrick,
+  sortByOrder,
+  splitCode,
+  trickShownSize,
+} from '../protocol';
+import { cn } from '../utils';
+import { CardPicker } from './CardPicker';
+import { CardView } from './CardView';
+
+const CLASSIC_SLOT_LABELS = ['Indicator', 'Code 1', 'Code 2', 'Code 3'];
+const SIZE_LABELS = ['S', 'M', 'L'];
+
+// --- MAGICIAN MODE ---
+// The user enters the face-up cards in the order the assistant laid them out, marking
+// reversed cards and the face-down position when the variant uses them, and the app
+// names the hidden card, showing each step of the decoding.
+
+export function DecoderView({ deck, config }: { deck: Card[]; config: TrickConfig }) {
+  const [sequence, setSequence] = useState<Card[]>([]);
+  const [activeSuit, setActiveSuit] = useState<Suit>('spades');
+  const [decoded, setDecoded] = useState<Trick | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reversedIds, setReversedIds] = useState<string[]>([]);
+  const [hiddenSlot, setHiddenSlot] = useState<number | null>(null);
+
+  const variant = VARIANTS[config.protocol === 'general' ? config.variant ?? DEFAULT_VARIANT : DEFAULT_VARIANT];
+  const sequenceSize = trickShownSize(config);
+  const slotLabels = config.protocol === 'classic'
+    ? CLASSIC_SLOT_LABELS
+    : Array.from({ length: sequenceSize }, (_, i) => `Card ${i + 1}`);
+
+  const handleCardClick = (card: Card) => {
+    setError(null);
+    if (sequence.find(c => c.id === card.id)) {
+      setSequence(s => s.filter(c => c.id !== card.id));
+    } else if (sequence.length < sequenceSize) {
+      setSequence(s => [...s, card]);
+    }
+  };
+
+  const toggleReversed = (card: Card) => {
+    setError(null);
+    setReversedIds(ids => (ids.includes(card.id) ? ids.filter(id => id !== card.id) : [...ids, card.id]));
+  };
+
+  const readMind = () => {
+    const marks = { reversed: sequence.map(c => reversedIds.includes(c.id)), hiddenSlot: hiddenSlot ?? undefined };
+    const result = revealTrick(sequence, deck, config, marks);
+    if (!result.ok) {
+      setError(describeProtocolError(result.error));
+      return;
+    }
+    setDecoded(result.value);
+  };
+
+  const reset = () => {
+    setSequence([]);
+    setReversedIds([]);
+    setHiddenSlot(null);
+    setDecoded(null);
+    setError(null);
+  };
+
+  return (
+    <AnimatePresence mode="wait">
+      {!decoded && (
+        <motion.div
+          key="decoder-input"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="flex-1 flex flex-col h-full"
+        >
+          {/* Sequence Slots */}
+          <div className="p-4 bg-black/40 border-b border-white/5 shadow-2xl z-40">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-slate-400">Shown Cards ({sequence.length}/{sequenceSize})</span>
+              {sequence.length > 0 && (
+                <motion.button
+                  initial={{ scale: 0.8, opacity: 0 }}
+                  animate={{ scale: 1, opacity: 1 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={readMind}
+                  className="px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-full shadow-[0_0_15px_rgba(99,102,241,0.5)]"
+                >
+                  READ MIND
+                </motion.button>
+              )}
+            </div>
+            <div className="flex items-start gap-3 overflow-x-auto pb-2 scrollbar-hide">
+              {slotLabels.map((label, idx) => (
+                <div key={label} className="flex flex-col items-center gap-1">
+                  {sequence[idx] ? (
+                    <CardView
+                      card={sequence[idx]}
+                      onClick={() => handleCardClick(sequence[idx])}
+                      orientation={variant.reversals ? (reversedIds.includes(sequence[idx].id) ? 'reversed' : 'upright') : undefined}
+                      size="sm"
+                    />
+                  ) : (
+                    <div className="w-12 h-16 rounded-xl border-2 border-dashed border-white/10" />
+                  )}
+                  <span className="text-[10px] uppercase tracking-wider text-slate-500">{label}</span>
+                  {variant.reversals && sequence[idx] && (
+                    <button
+                      onClick={() => toggleReversed(sequence[idx])}
+                      className="p-1 rounded-full text-slate-400 hover:text-white hover:bg-white/10"
+                    >
+                      <RotateCw size={12} />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {variant.faceDown && (
+              <div className="flex items-center gap-1 mt-2">
+                <span className="text-xs text-slate-400 mr-1">Face-down position:</span>
+                {Array.from({ length: sequenceSize + 1 }, (_, slot) => (
+                  <button
+                    key={slot}
+                    onClick={() => { setHiddenSlot(slot); setError(null); }}
+                    className={cn(
+                      "w-6 h-6 text-xs rounded-md border transition-colors",
+                      hiddenSlot === slot ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-white/10 text-slate-400 hover:text-white"
+                    )}
+                  >
+                    {slot + 1}
+                  </button>
+                ))}
+              </div>
+            )}
+            {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+          </div>
+
+          <CardPicker
+            deck={deck}
+            activeSuit={activeSuit}
+            onSuitChange={setActiveSuit}
+            isSelected={card => !!sequence.find(c => c.id === card.id)}
+            onCardClick={handleCardClick}
+          />
+        </motion.div>
+      )}
+
+      {decoded && (
+        <motion.div
+          key="decoder-result"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -20 }}
+          className="flex-1 overflow-y-auto flex flex-col items-center p-6 space-y-8 bg-gradient-to-b from-background to-black"
+        >
+          <div className="w-full max-w-md space-y-6">
+            <div className="flex flex-col items-center">
+              <h2 className="text-indigo-400 text-sm font-bold tracking-widest uppercase mb-4 opacity-80 text-center">The Hidden Card</h2>
+              <CardView card={decoded.hidden} size="lg" />
+            </div>
+            {config.protocol === 'classic' ? (
+              <ClassicSteps trick={decoded} codebook={config.codebook ?? CLASSIC_CODEBOOK} />
+            ) : (
+              <GeneralSteps trick={decoded} deck={deck} handSize={config.handSize} variant={variant} order={config.order ?? 'value-first'} />
+            )}
+          </div>
+
+          <button
+            onClick={reset}
+            className="flex items-center gap-2 px-6 py-3 bg-white/10 hover:bg-white/20 font-bold rounded-full transition-colors"
+          >
+            <RefreshCw size={18} />
+            DECODE ANOTHER
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function ClassicSteps({ trick, codebook }: { trick: Trick; codebook: Codebook }) {
+  const [indicator, ...codeCards] = trick.shown;
+  const offset = trick.detail.protocol === 'classic' ? trick.detail.offset : 0;
+  const sorted = sortByOrder(codeCards, codebook.order);
+  const pattern = formatPermutation(codebook.table[offset - 1]);
+  const wraps = indicator.value + offset > 13;
+
+  return (
+    <ol className="space-y-4 text-sm text-slate-300">
+      <Step number={1} title="Suit from the indicator">
+        The first card is the {indicator.displayValue} of {indicator.suit}, so the hidden card is a {SUIT_DEFINITIONS[indicator.suit].singular}.
+      </Step>
+
+      <Step number={2} title="Small, Medium, Large">
+        <div className="flex items-end gap-3 mt-2">
+          {sorted.map((card, i) => (
+            <div key={card.id} className="flex flex-col items-center gap-1">
+              <CardView card={card} size="sm" layoutId={`ranked-${card.id}`} />
+              <span className="text-[10px] font-bold text-indigo-300">{SIZE_LABELS[i]}</span>
+            </div>
+          ))}
+        </div>
+        <p className="mt-2">{CARD_ORDERS[codebook.order].description}.</p>
+      </Step>
+
+      <Step number={3} title="Permutation offset">
+        The code cards were laid out as <span className="font-mono font-bold text-white">{pattern}</span>, which means <span className="font-bold text-white">+{offset}</span>.
+      </Step>
+
+      <Step number={4} title="Clock addition">
+        {indicator.displayValue} + {offset} = <span className="font-bold text-white">{trick.hidden.displayValue}</span>
+        {wraps && ' (counting past the King back round to the Ace)'}.
+      </Step>
+    </ol>
+  );
+}
+
+function GeneralSteps({ trick, deck, handSize, variant, order }: {
+  trick: Trick;
+  deck: Card[];
+  handSize: number;
+  variant: VariantDefinition;
+  order: CardOrderId;
+}) {
+  const numbered = sortByOrder(deck, order);
+  const numberOf = (card: Card) => numbered.findIndex(c => c.id === card.id);
+  const numbers = trick.shown.map(numberOf);
+  const total = numbers.reduce((a, b) => a + b, 0);
+  const residue = ((-total % handSize) + handSize) % handSize;
+  const code = trick.detail.protocol === 'general' ? trick.detail.code : 0;
+  const position = handSize * code + residue;
+  const digits = splitCode(code, handSize, variant.id);
+  // The code as a mixed-radix number: permutation, then reversal bits, then face-down position
+  const withReversals = variant.reversals ? `${digits.permutation} × ${2 ** (handSize - 1)} + ${digits.reversals}` : `${digits.permutation}`;
+  const formula = variant.faceDown
+    ? `${variant.reversals ? `(${withReversals})` : withReversals} × ${handSize} + ${digits.slot}`
+    : withReversals;
+
+  return (
+    <ol className="space-y-4 text-sm text-slate-300">
+      <Step number={1} title="Number the cards">
+        <div className="flex flex-wrap items-end gap-3 mt-2">
+          {trick.shown.map((card, i) => (
+            <div key={card.id} className="flex flex-col items-center gap-1">
+              <CardView card={card} size="sm" layoutId={`numbered-${card.id}`} />
+              <span className="text-[10px] font-bold text-indigo-300">#{numbers[i]}</span>
+            </div>
+          ))}
+        </div>
+      </Step>
+
+      <Step number={2} title="Residue from the sum">
+        The shown cards add up to {total}, and -{total} mod {handSize} = <span className="font-bold text-white">{residue}</span>.
+      </Step>
+
+      <Step number={3} title={variant.id === 'order' ? 'Code from the order' : 'Code from the layout'}>
+        Their order is permutation number <span className="font-bold text-white">{digits.permutation}</span> in lexicographic order.
+        {variant.reversals && (
+          <> The reversed cards read as the binary number {trick.reversed.map(r => (r ? 1 : 0)).join('')} = {digits.reversals}.</>
+        )}
+        {trick.hiddenSlot !== undefined && <> The face-down card lies in position {trick.hiddenSlot + 1}.</>}
+        {variant.id !== 'order' && (
+          <> Together: {formula} = <span className="font-bold text-white">{code}</span>.</>
+        )}
+      </Step>
+
+      <Step number={4} title="Count the unseen cards">
+        {handSize} × {code} + {residue} = {position}, so the hidden card is unseen card #{position}: the <span className="font-bold text-white">{describeCard(trick.hidden)}</span>.
+      </Step>
+    </ol>
+  );
+}
+
+function Step({ number, title, children }: { number: number; title: string; children: ReactNode }) {
+  return (
+    <li className="rounded-xl bg-white/5 border border-white/10 p-4">
+      <div className="text-xs font-bold uppercase tracking-widest text-indigo-300 mb-1">
+        {number}. {title}
+      </div>
+      {children}
+    </li>
+  );
+}
@@ -0,0 +1,220 @@
+import { type ReactNode, useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronLeft, ChevronRight, Pause, Play, X } from 'lucide-react';
+import {
+  type Card,
+  type ExplainStep,
+  CARD_ORDERS,
+  MAX_OFFSET,
+  PAIR_STRATEGY_LABELS,
+  describeCard,
+  formatPermutation,
+} from '../protocol';
+import { cn } from '../utils';
+import { CardView } from './CardView';
+
+const SIZE_LABELS = ['S', 'M', 'L'];
+const STEP_MS = 4000;
+
+const STEP_TITLES: Record<ExplainStep['kind'], string> = {
+  'group-by-suit': 'Group by suit',
+  'choose-pair': 'Choose the pair',
+  'clock-distance': 'Count round the clock',
+  'swap': 'Indicator and hidden card',
+  'sort': 'Small, Medium, Large',
+  'permutation': 'Offset to permutation',
+};
+
+// --- EXPLAIN ---
+// Walks through why the assistant laid the current hand out the way it did, one step at a
+// time, highlighting the cards each step is about.
+
+export function ExplainView({ hand, steps, onClose }: {
+  hand: Card[];
+  steps: ExplainStep[];
+  onClose: () => void;
+}) {
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const step = steps[index];
+  const isLast = index === steps.length - 1;
+
+  // Autoplay stops on the last step; stepping by hand pauses it
+  useEffect(() => {
+    if (!isPlaying || isLast) return;
+    const timer = setTimeout(() => setIndex(i => i + 1), STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, isLast, index]);
+
+  const go = (next: number) => {
+    setIsPlaying(false);
+    setIndex(next);
+  };
+
+  const highlighted = new Set(step.cards.map(c => c.id));
+
+  return (
+    <div className="w-full max-w-md rounded-2xl border border-white/10 bg-black/40 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">How It Was Arranged</h2>
+        <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* The whole hand, with this step's cards lifted out */}
+      <div className="flex justify-center gap-2">
+        {hand.map(card => (
+          <motion.div
+            key={card.id}
+            animate={{ opacity: highlighted.has(card.id) ? 1 : 0.3, y: highlighted.has(card.id) ? -6 : 0 }}
+            transition={{ duration: 0.4 }}
+          >
+            <CardView card={card} size="sm" isSelected={highlighted.has(card.id)} layoutId={`explain-hand-${card.id}`} />
+          </motion.div>
+        ))}
+      </div>
+
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={index}
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: -20 }}
+          className="min-h-40 space-y-3 text-sm text-slate-300"
+        >
+          <div className="text-xs font-bold uppercase tracking-widest text-indigo-300">
+            {index + 1}. {STEP_TITLES[step.kind]}
+          </div>
+          <StepDetail step={step} />
+        </motion.div>
+      </AnimatePresence>
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => go(index - 1)}
+          disabled={index === 0}
+          className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/10 disabled:opacity-30"
+        >
+          <ChevronLeft size={18} />
+        </button>
+        <div className="flex items-center gap-3">
+          <div className="flex gap-1.5">
+            {steps.map((s, i) => (
+              <button
+                key={s.kind}
+                onClick={() => go(i)}
+                className={cn("w-2 h-2 rounded-full transition-colors", i === index ? "bg-indigo-400" : "bg-white/20 hover:bg-white/40")}
+              />
+            ))}
+          </div>
+          <button
+            onClick={() => (isLast ? (setIndex(0), setIsPlaying(true)) : setIsPlaying(p => !p))}
+            className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/10"
+          >
+            {isPlaying && !isLast ? <Pause size={16} /> : <Play size={16} />}
+          </button>
+        </div>
+        <button
+          onClick={() => go(index + 1)}
+          disabled={isLast}
+          className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/10 disabled:opacity-30"
+        >
+          <ChevronRight size={18} />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function StepDetail({ step }: { step: ExplainStep }) {
+  switch (step.kind) {
+    case 'group-by-suit': return (
+      <>
+        <div className="flex justify-center gap-4">
+          {step.groups.map(group => (
+            <div
+              key={group.suit}
+              className={cn("flex gap-1 rounded-xl p-1.5", group.suit === step.suit ? "bg-indigo-500/20 ring-1 ring-indigo-500/60" : "bg-white/5")}
+            >
+              {group.cards.map(card => <StepCard key={card.id} card={card} />)}
+            </div>
+          ))}
+        </div>
+        <p>
+          Five cards and only four suits, so at least two cards share a suit (the pigeonhole principle).
+          Here the {step.suit} are used.
+        </p>
+      </>
+    );
+    case 'choose-pair': return (
+      <>
+        <CardRow cards={step.cards} />
+        <p>
+          {step.candidates.length > 2
+            ? `There are ${step.candidates.length} ${step.candidates[0].suit} to choose from. `
+            : `The two ${step.candidates[0].suit} make the pair. `}
+          {step.strategy && `${PAIR_STRATEGY_LABELS[step.strategy]} picks the ${describeCard(step.cards[0])} and the ${describeCard(step.cards[1])}.`}
+        </p>
+      </>
+    );
+    case 'clock-distance': return (
+      <>
+        <CardRow cards={step.cards} />
+        <p>
+          Picture the 13 values on a clock, Ace to King. From the {step.from.displayValue} it is{' '}
+          <Strong>{step.forward}</Strong> hours clockwise to the {step.to.displayValue}, and from the {step.to.displayValue} it is{' '}
+          <Strong>{step.backward}</Strong> hours back. One of the two is always {MAX_OFFSET} or less.
+        </p>
+      </>
+    );
+    case 'swap': return (
+      <>
+        <CardRow cards={[step.indicator, step.hidden]} labels={['Indicator', 'Hidden']} />
+        <p>
+          The count must start from the card that is shown, so the short way round decides the roles
+          {step.swapped ? ', which swaps the pair' : ''}: the {describeCard(step.indicator)} is laid down first and the{' '}
+          {describeCard(step.hidden)} is kept back, <Strong>{step.offset}</Strong> hours clockwise from it.
+        </p>
+      </>
+    );
+    case 'sort': return (
+      <>
+        <CardRow cards={step.cards} labels={SIZE_LABELS} />
+        <p>The other three cards are ranked: {CARD_ORDERS[step.order].description.toLowerCase()}.</p>
+      </>
+    );
+    case 'permutation': return (
+      <>
+        <CardRow cards={step.cards} labels={step.permutation.map(i => SIZE_LABELS[i])} />
+        <p>
+          An offset of <Strong>{step.offset}</Strong> is the order <Strong>{formatPermutation(step.permutation)}</Strong>, so
+          the three cards follow the indicator as the {step.cards.map(describeCard).join(', then the ')}.
+        </p>
+      </>
+    );
+  }
+}
+
+function CardRow({ cards, labels }: { cards: Card[]; labels?: string[] }) {
+  return (
+    <div className="flex justify-center items-end gap-3">
+      {cards.map((card, i) => (
+        <motion.div
+          key={card.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 + i * 0.15 }}
+          className="flex flex-col items-center gap-1"
+        >
+          <StepCard card={card} />
+          {labels && <span className="text-[10px] font-bold text-indigo-300">{labels[i]}</span>}
+        </motion.div>
+      ))}
+    </div>
+  );
+}
+
+const StepCard = ({ card }: { card: Card }) => <CardView card={card} size="sm" layoutId={`explain-step-${card.id}`} />;
+
+const Strong = ({ children }: { children: ReactNode }) => <span className="font-bold text-white">{children}</span>;
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Keyboard } from 'lucide-react';
+import { type Card, describeNotationError, formatCard, formatCards, parseCards, suggestCards } from '../protocol';
+import { cn } from '../utils';
+import { suitTabColor } from './suits';
+
+const MAX_SUGGESTIONS = 8;
+
+const handKey = (cards: Card[]) => cards.map(c => c.id).join(' ');
+
+// Splits typed text into the finished cards and the one still being typed
+function splitDraft(draft: string) {
+  const match = /^(.*?)([^\s,]*)$/s.exec(draft);
+  return { complete: match?.[1] ?? '', partial: match?.[2] ?? '' };
+}
+
+// --- HAND INPUT ---
+// Type the hand instead of tapping it, e.g. `AS KH 10d Tc 7♦`. Finished cards go straight into
+// the hand; the card being typed offers completions from the deck.
+
+export function HandInput({ deck, hand, handSize, onChange }: {
+  deck: Card[];
+  hand: Card[];
+  handSize: number;
+  onChange: (hand: Card[]) => void;
+}) {
+  const [draft, setDraft] = useState(() => formatCards(hand, 'letters'));
+  const [syncedKey, setSyncedKey] = useState(() => handKey(hand));
+
+  // The hand was changed elsewhere (tapping the grid): show it as text instead of the old draft
+  if (handKey(hand) !== syncedKey) {
+    setSyncedKey(handKey(hand));
+    setDraft(hand.length > 0 ? `${formatCards(hand, 'letters')} ` : '');
+  }
+
+  const { complete, partial } = splitDraft(draft);
+  const finished = parseCards(complete, deck);
+  const whole = parseCards(draft, deck);
+  const suggestions = finished.ok && finished.value.length < handSize
+    ? suggestCards(partial, deck, finished.value).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  // A half-typed card is only an error once nothing in the deck could complete it
+  const error = !finished.ok
+    ? describeNotationError(finished.error)
+    : !whole.ok && suggestions.length === 0
+      ? describeNotationError(whole.error)
+      : whole.ok && whole.value.length > handSize
+        ? `A hand is ${handSize} cards; the rest are ignored`
+        : null;
+
+  const update = (text: string) => {
+    setDraft(text);
+    const cards = parseCards(text, deck);
+    const next = cards.ok ? cards : parseCards(splitDraft(text).complete, deck);
+    if (!next.ok) return;
+    const nextHand = next.value.slice(0, handSize);
+    if (handKey(nextHand) === handKey(hand)) return;
+    setSyncedKey(handKey(nextHand));
+    onChange(nextHand);
+  };
+
+  const accept = (card: Card) => update(`${complete}${formatCard(card, 'letters')} `);
+
+  return (
+    <div className="mb-2 space-y-1">
+      <label className="flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-1.5 focus-within:border-indigo-500">
+        <Keyboard size={14} className="shrink-0 text-slate-500" />
+        <input
+          value={draft}
+          onChange={e => update(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Tab' && suggestions.length > 0 && partial) {
+              e.preventDefault();
+              accept(suggestions[0]);
+            }
+          }}
+          placeholder="Type cards, e.g. AS KH 10d Tc 7♦"
+          spellCheck={false}
+          autoCapitalize="characters"
+          className="w-full bg-transparent text-sm font-mono outline-none placeholder:text-slate-600"
+        />
+      </label>
+      {partial && suggestions.length > 0 && (
+        <div className="flex items-center gap-1.5 overflow-x-auto scrollbar-hide">
+          {suggestions.map(card => (
+            <button
+              key={card.id}
+              onClick={() => accept(card)}
+              className={cn("shrink-0 px-2 py-0.5 text-xs font-mono rounded-full border border-white/10 hover:border-indigo-500", suitTabColor(card.suit))}
+            >
+              {formatCard(card)}
+            </button>
+          ))}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { type ReactNode, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, Eye, EyeOff, Play, Trash2, Upload } from 'lucide-react';
+import { PAIR_STRATEGY_LABELS, SUIT_DEFINITIONS, formatCard, tableLayout } from '../protocol';
+import {
+  type LogFormat,
+  type LoggedPerformance,
+  describeLogImportError,
+  exportLog,
+  importLog,
+  summarizeLog,
+} from '../performance/history';
+import { SUIT_ICONS, suitTabColor } from './suits';
+import { cn } from '../utils';
+
+const MIME_TYPES: Record<LogFormat, string> = { json: 'application/json', csv: 'text/csv' };
+
+function download(log: LoggedPerformance[], format: LogFormat) {
+  const url = URL.createObjectURL(new Blob([exportLog(log, format)], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `cardtrick-history.${format}`;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// --- HISTORY ---
+// Past performances, newest first. Any of them can be put back on the stage.
+
+export function HistoryPanel({ log, onReplay, onImport, onClear }: {
+  log: LoggedPerformance[];
+  onReplay: (entry: LoggedPerformance) => void;
+  onImport: (entries: LoggedPerformance[]) => void;
+  onClear: () => void;
+}) {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const summary = summarizeLog(log);
+
+  const importFile = async (file: File) => {
+    const result = importLog(await file.text(), file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json');
+    setImportError(result.ok ? null : describeLogImportError(result.error));
+    if (result.ok) onImport(result.value);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="flex-1 overflow-y-auto p-6"
+    >
+      <div className="w-full max-w-md mx-auto space-y-8">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {(['json', 'csv'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => download(log, format)}
+              disabled={log.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-30 disabled:pointer-events-none"
+            >
+              <Download size={14} />
+              {format.toUpperCase()}
+            </button>
+          ))}
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20"
+          >
+            <Upload size={14} />
+            Import
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={e => {
+              const file = e.currentTarget.files?.[0];
+              e.currentTarget.value = '';
+              if (file) void importFile(file);
+            }}
+          />
+          <button
+            onClick={onClear}
+            disabled={log.length === 0}
+            className="ml-auto flex items-center gap-1 px-3 py-1.5 rounded-full text-slate-400 hover:text-red-400 hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none"
+          >
+            <Trash2 size={14} />
+            Clear
+          </button>
+        </div>
+        {importError && <p className="text-xs text-red-400">{importError}</p>}
+
+        <Section title="Summary">
+          <p className="text-sm text-slate-300">
+            {summary.performances} performances, {summary.revealed} revealed
+          </p>
+          <CountBars
+            counts={summary.offsets.map(([offset, n]) => [`+${offset}`, n])}
+            total={summary.offsets.reduce((sum, [, n]) => sum + n, 0)}
+          />
+          <CountBars
+            counts={summary.hiddenSuits.map(([suit, n]) => {
+              const Icon = SUIT_ICONS[SUIT_DEFINITIONS[suit].symbol];
+              return [<Icon key={suit} className={cn("w-4 h-4", suitTabColor(suit))} />, n];
+            })}
+            total={summary.performances}
+          />
+          <CountBars
+            counts={summary.strategies.map(([id, n]) => [PAIR_STRATEGY_LABELS[id], n])}
+            total={summary.strategies.reduce((sum, [, n]) => sum + n, 0)}
+          />
+        </Section>
+
+        <Section title="Performances">
+          {log.length === 0 && <span className="text-xs italic text-slate-600">Performances are logged here as they happen</span>}
+          {log.map(entry => <LogEntry key={entry.performedAt} entry={entry} onReplay={() => onReplay(entry)} />)}
+        </Section>
+      </div>
+    </motion.div>
+  );
+}
+
+function LogEntry({ entry, onReplay }: { entry: LoggedPerformance; onReplay: () => void }) {
+  const { detail } = entry.trick;
+  return (
+    <div className="flex items-center gap-3 rounded-xl border border-white/10 bg-white/5 px-3 py-2">
+      <div className="flex-1 min-w-0 space-y-0.5">
+        <div className="font-mono text-sm text-slate-200">
+          {tableLayout(entry.trick).map(p => (p.faceDown ? '▢' : formatCard(p.card) + (p.reversed ? '↓' : ''))).join(' ')}
+          <span className="text-slate-500"> → {formatCard(entry.trick.hidden)}</span>
+        </div>
+        <div className="text-xs text-slate-500">
+          {new Date(entry.performedAt).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}
+          {' · '}
+          {detail.protocol === 'classic'
+            ? `+${detail.offset}${detail.strategy ? `, ${PAIR_STRATEGY_LABELS[detail.strategy]}` : ''}`
+            : `general, code ${detail.code}`}
+        </div>
+      </div>
+      <span title={entry.revealed ? 'Revealed' : 'Not revealed'}>
+        {entry.revealed ? <Eye size={14} className="text-emerald-400" /> : <EyeOff size={14} className="text-slate-600" />}
+      </span>
+      <button onClick={onReplay} title="Replay" className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+        <Play size={14} />
+      </button>
+    </div>
+  );
+}
+
+function CountBars({ counts, total }: { counts: [ReactNode, number][]; total: number }) {
+  if (counts.length === 0) return null;
+  return (
+    <div className="space-y-1.5">
+      {counts.map(([label, n], i) => (
+        <div key={i} className="flex items-center gap-3 text-xs">
+          <span className="w-28 shrink-0 flex justify-end text-slate-400">{label}</span>
+          <div className="flex-1 h-1.5 rounded-full bg-white/10 overflow-hidden">
+            <div className="h-full bg-indigo-500" style={{ width: `${(n / Math.max(total, 1)) * 100}%` }} />
+          </div>
+          <span className="w-8 text-right font-mono text-slate-400">{n}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="space-y-3">
+      <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">{title}</h2>
+      {children}
+    </section>
+  );
+}
@@ -0,0 +1,211 @@
+import { type ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BarChart3, Check, ChevronRight, Timer, X } from 'lucide-react';
+import { type Card, type Codebook, type Suit, SUITS, SUIT_DEFINITIONS, createDeck, isSameCard } from '../protocol';
+import {
+  type DrillRound,
+  type DrillStats,
+  type Tally,
+  TIME_LIMIT_MS,
+  accuracy,
+  averageMs,
+  dealDrillRound,
+  recordResult,
+} from '../practice/magicianDrill';
+import { loadDrillStats, saveDrillStats } from '../storage';
+import { cn } from '../utils';
+import { CardPicker } from './CardPicker';
+import { CardView } from './CardView';
+import { SUIT_ICONS, suitTabColor } from './suits';
+
+interface Answer {
+  card: Card | null;
+  correct: boolean;
+  ms: number;
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// --- MAGICIAN PRACTICE ---
+// Deals a random hand, shows the indicator and code cards the classic protocol would lay out,
+// and times the user naming the hidden card. Always uses the standard deck and the performer's codebook.
+
+export function MagicianPractice({ codebook }: { codebook: Codebook }) {
+  const deck = useMemo(() => createDeck(), []);
+  const [stats, setStats] = useState<DrillStats>(loadDrillStats);
+  const [sessionStart] = useState(Date.now);
+  const [round, setRound] = useState<DrillRound>(() => dealDrillRound(stats, codebook));
+  const [roundStart, setRoundStart] = useState(Date.now);
+  const [now, setNow] = useState(Date.now);
+  const [answer, setAnswer] = useState<Answer | null>(null);
+  const [activeSuit, setActiveSuit] = useState<Suit>('spades');
+  const [showProgress, setShowProgress] = useState(false);
+
+  const session = stats.sessions.find(s => s.startedAt === sessionStart);
+  const remaining = Math.max(0, TIME_LIMIT_MS - (now - roundStart));
+
+  const finish = useCallback((card: Card | null) => {
+    const ms = Math.min(Date.now() - roundStart, TIME_LIMIT_MS);
+    const correct = card !== null && isSameCard(card, round.hidden);
+    const next = recordResult(stats, { offset: round.offset, suit: round.suit, correct, ms }, sessionStart);
+    setStats(next);
+    saveDrillStats(next);
+    setAnswer({ card, correct, ms });
+  }, [round, roundStart, stats, sessionStart]);
+
+  // Tick the countdown and give up on the round when time runs out
+  useEffect(() => {
+    if (answer) return;
+    const tick = setInterval(() => setNow(Date.now()), 100);
+    const timeout = setTimeout(() => finish(null), Math.max(0, TIME_LIMIT_MS - (Date.now() - roundStart)));
+    return () => {
+      clearInterval(tick);
+      clearTimeout(timeout);
+    };
+  }, [answer, finish, roundStart]);
+
+  const nextRound = () => {
+    setRound(dealDrillRound(stats, codebook));
+    setAnswer(null);
+    const start = Date.now();
+    setRoundStart(start);
+    setNow(start);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col h-full">
+      <div className="p-4 bg-black/40 border-b border-white/5 shadow-2xl z-40 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-slate-400">
+            Session: {session ? `${session.correct}/${session.attempts} correct` : 'no answers yet'}
+          </span>
+          <button
+            onClick={() => setShowProgress(p => !p)}
+            className={cn("p-2 rounded-full hover:bg-white/10 transition-colors", showProgress ? "text-indigo-400" : "text-slate-400")}
+          >
+            <BarChart3 size={18} />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-center gap-3">
+          {round.shown.map((card, idx) => (
+            <CardView key={card.id} card={card} size="md" layoutId={`drill-${idx}-${card.id}`} />
+          ))}
+          {answer ? (
+            <CardView card={round.hidden} size="md" isSelected layoutId={`drill-hidden-${round.hidden.id}`} />
+          ) : (
+            <CardView isFaceDown size="md" />
+          )}
+        </div>
+
+        {!answer && (
+          <div className="flex items-center gap-2">
+            <Timer size={14} className="text-slate-500" />
+            <div className="flex-1 h-1.5 rounded-full bg-white/10 overflow-hidden">
+              <div
+                className={cn("h-full transition-[width] duration-100", remaining < 5000 ? "bg-red-500" : "bg-indigo-500")}
+                style={{ width: `${(remaining / TIME_LIMIT_MS) * 100}%` }}
+              />
+            </div>
+            <span className="w-10 text-right text-xs font-mono text-slate-400">{seconds(remaining)}</span>
+          </div>
+        )}
+
+        <AnimatePresence>
+          {answer && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="flex items-center justify-between"
+            >
+              <span className={cn("flex items-center gap-2 text-sm font-bold", answer.correct ? "text-emerald-400" : "text-red-400")}>
+                {answer.correct ? <Check size={16} /> : <X size={16} />}
+                {answer.correct ? `Correct in ${seconds(answer.ms)}` : answer.card ? 'Not quite' : "Time's up"}
+                <span className="font-normal text-slate-400">(+{round.offset})</span>
+              </span>
+              <button
+                onClick={nextRound}
+                className="flex items-center gap-1 px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-full"
+              >
+                NEXT
+                <ChevronRight size={14} />
+              </button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      {showProgress ? (
+        <DrillProgress stats={stats} />
+      ) : (
+        <CardPicker
+          deck={deck}
+          activeSuit={activeSuit}
+          onSuitChange={setActiveSuit}
+          isSelected={card => !!answer?.card && isSameCard(card, answer.card)}
+          onCardClick={card => { if (!answer) finish(card); }}
+        />
+      )}
+    </div>
+  );
+}
+
+// --- PROGRESS CHARTS ---
+
+function DrillProgress({ stats }: { stats: DrillStats }) {
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="w-full max-w-md mx-auto space-y-8">
+        <ChartSection title="By Offset">
+          {stats.byOffset.map((t, i) => <TallyBar key={i} tally={t} label={`+${i + 1}`} />)}
+        </ChartSection>
+
+        <ChartSection title="By Suit">
+          {SUITS.map(suit => {
+            const Icon = SUIT_ICONS[SUIT_DEFINITIONS[suit].symbol];
+            return (
+              <TallyBar
+                key={suit}
+                tally={stats.bySuit[suit]}
+                label={<Icon className={cn("w-4 h-4", suitTabColor(suit))} />}
+              />
+            );
+          })}
+        </ChartSection>
+
+        <ChartSection title="Sessions">
+          {stats.sessions.length === 0 && <span className="text-xs italic text-slate-600">No sessions yet</span>}
+          {stats.sessions.map(s => (
+            <TallyBar key={s.startedAt} tally={s} label={new Date(s.startedAt).toLocaleDateString(undefined, { month: 'numeric', day: 'numeric' })} />
+          ))}
+        </ChartSection>
+      </div>
+    </div>
+  );
+}
+
+function ChartSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="space-y-3">
+      <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">{title}</h2>
+      <div className="flex items-end gap-2 h-32 overflow-x-auto scrollbar-hide">{children}</div>
+    </section>
+  );
+}
+
+// Bar height is accuracy; the average answer time is printed above it.
+function TallyBar({ tally, label }: { tally?: Tally; label: ReactNode }) {
+  const attempts = tally?.attempts ?? 0;
+  return (
+    <div className="flex flex-col items-center justify-end gap-1 h-full min-w-8" title={`${attempts} attempts`}>
+      <span className="text-[10px] font-mono text-slate-500">{tally && attempts > 0 ? seconds(averageMs(tally)) : '–'}</span>
+      <div className="w-6 flex-1 flex items-end rounded-t-md bg-white/5">
+        <div
+          className="w-full rounded-t-md bg-indigo-500"
+          style={{ height: `${tally ? accuracy(tally) * 100 : 0}%` }}
+        />
+      </div>
+      <span className="text-[10px] text-slate-400 h-4 flex items-center">{label}</span>
+    </div>
+  );
+}
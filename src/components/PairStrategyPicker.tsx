@@ -0,0 +1,54 @@
+import { motion } from 'framer-motion';
+import { type Card, type PairStrategyId, PAIR_STRATEGY_LABELS, listHideableCards } from '../protocol';
+import { cn } from '../utils';
+import { CardView } from './CardView';
+
+const STRATEGY_IDS = Object.keys(PAIR_STRATEGY_LABELS) as PairStrategyId[];
+
+// Lets the assistant choose how the same-suit pair is picked. With "performer's choice"
+// the full hand is offered so the performer can tap the card they want to hide.
+export function PairStrategyPicker({ value, onChange, hand, chosenHidden, onChooseHidden }: {
+  value: PairStrategyId;
+  onChange: (id: PairStrategyId) => void;
+  hand: Card[];
+  chosenHidden: Card | null;
+  onChooseHidden: (card: Card) => void;
+}) {
+  const hideable = value === 'performer-choice' && hand.length === 5 ? listHideableCards(hand) : [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 overflow-x-auto scrollbar-hide">
+        <span className="text-xs text-slate-500 shrink-0">Pair:</span>
+        {STRATEGY_IDS.map(id => (
+          <button
+            key={id}
+            onClick={() => onChange(id)}
+            className={cn(
+              "shrink-0 px-3 py-1 text-xs rounded-full border transition-colors",
+              value === id ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-white/10 text-slate-400 hover:text-white"
+            )}
+          >
+            {PAIR_STRATEGY_LABELS[id]}
+          </button>
+        ))}
+      </div>
+
+      {hideable.length > 0 && (
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="flex items-center gap-2">
+          <span className="text-xs text-slate-500 shrink-0">Hide:</span>
+          {hideable.map(card => (
+            <CardView
+              key={card.id}
+              card={card}
+              size="sm"
+              isSelected={chosenHidden?.id === card.id}
+              onClick={() => onChooseHidden(card)}
+              layoutId={`hide-${card.id}`}
+            />
+          ))}
+        </motion.div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import type { Codebook } from '../protocol';
+import { cn } from '../utils';
+import { AssistantPractice } from './AssistantPractice';
+import { MagicianPractice } from './MagicianPractice';
+
+type Role = 'magician' | 'assistant';
+const ROLES: { id: Role; label: string }[] = [
+  { id: 'magician', label: 'Name the card' },
+  { id: 'assistant', label: 'Arrange the cards' },
+];
+
+// --- PRACTICE ---
+// Drills for both sides of the trick, always on the classic protocol with the performer's codebook.
+
+export function PracticeView({ codebook }: { codebook: Codebook }) {
+  const [role, setRole] = useState<Role>('magician');
+
+  return (
+    <div className="flex-1 flex flex-col h-full">
+      <div className="flex justify-center gap-1 p-2 border-b border-white/5 bg-black/20">
+        {ROLES.map(r => (
+          <button
+            key={r.id}
+            onClick={() => setRole(r.id)}
+            className={cn(
+              "px-3 py-1 text-xs font-bold rounded-full transition-colors",
+              role === r.id ? "bg-white/10 text-white" : "text-slate-400 hover:text-white"
+            )}
+          >
+            {r.label}
+          </button>
+        ))}
+      </div>
+      {role === 'magician' ? <MagicianPractice codebook={codebook} /> : <AssistantPractice codebook={codebook} />}
+    </div>
+  );
+}
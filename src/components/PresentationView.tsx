@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import { type Trick, tableLayout } from '../protocol';
+import {
+  type Pacing,
+  type PresentationAction,
+  type PresentationStep,
+  describeNextCue,
+  initialPresentation,
+  presentationReducer,
+} from '../performance/presentation';
+import { createCuePlayer } from '../performance/sound';
+import { cardName, useLocale } from '../i18n/locales';
+import { isTyping } from '../utils';
+import { CardView } from './CardView';
+import { cardLabel, placementLabel } from './labels';
+
+const ADVANCE_KEYS = [' ', 'Enter', 'ArrowRight', 'ArrowDown', 'PageDown'];
+const BACK_KEYS = ['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace'];
+
+// --- PRESENTATION ---
+// The stage on its own, full screen, for a projector or a second display. The row is laid down
+// card by card on the presenter's key (clickers send PageDown) or on a timer, then a drum roll,
+// then the hidden card turns over. The presenter overlay says what the next key does and names the
+// hidden card, so it starts hidden: a mirrored screen would show it to the audience. O toggles it.
+
+export function PresentationView({ trick, showsOrientation, pacing, onReveal, onExit }: {
+  trick: Trick;
+  showsOrientation: boolean;
+  pacing: Pacing;
+  onReveal: () => void;
+  onExit: () => void;
+}) {
+  const layout = tableLayout(trick);
+  const cards = layout.length;
+  const [state, setState] = useState(initialPresentation);
+  const [showOverlay, setShowOverlay] = useState(false);
+  const [cues] = useState(createCuePlayer);
+  const root = useRef<HTMLDivElement>(null);
+  const locale = useLocale();
+  const { presenter } = locale.strings;
+  const isRevealed = state.step === 'revealed';
+
+  // Sound and the app's own reveal follow each step forward
+  const act = (action: PresentationAction) => {
+    const next = presentationReducer(state, action);
+    if (next === state) return;
+    if (pacing.sound && next.placed > state.placed) cues.place();
+    if (pacing.sound && next.step === 'drum-roll' && state.step !== 'drum-roll') cues.drumRoll(pacing.drumRollMs);
+    if (next.step === 'revealed' && state.step !== 'revealed') {
+      if (pacing.sound) cues.reveal();
+      onReveal();
+    }
+    setState(next);
+  };
+  const advance = () => act({ type: 'advance', cards, drumRollMs: pacing.drumRollMs });
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) void document.exitFullscreen().catch(() => {});
+    else void root.current?.requestFullscreen().catch(() => {});
+  };
+
+  // Full screen while presenting; a browser that refuses still gets the view covering the window
+  useEffect(() => {
+    void root.current?.requestFullscreen?.().catch(() => {});
+    return () => {
+      if (document.fullscreenElement) void document.exitFullscreen().catch(() => {});
+      cues.close();
+    };
+  }, [cues]);
+
+  // Timed steps: cards placed at the configured pace, and the drum roll running out
+  useEffect(() => {
+    const timed: [PresentationAction, number] | undefined =
+      state.step === 'placing' && !pacing.placeOnKeypress ? [{ type: 'place-next', cards }, pacing.cardIntervalMs]
+      : state.step === 'drum-roll' ? [{ type: 'drum-roll-done' }, pacing.drumRollMs]
+      : undefined;
+    if (!timed) return;
+    const timeout = setTimeout(() => act(timed[0]), timed[1]);
+    return () => clearTimeout(timeout);
+  });
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) return;
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+      if (ADVANCE_KEYS.includes(key)) advance();
+      else if (BACK_KEYS.includes(key)) act({ type: 'back' });
+      else if (key === 'o') setShowOverlay(s => !s);
+      else if (key === 'f') toggleFullscreen();
+      else if (key === 'r') act({ type: 'restart' });
+      else if (key === 'Escape') onExit();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  return (
+    <div
+      ref={root}
+      onClick={advance}
+      className="fixed inset-0 z-[100] bg-black text-white flex flex-col items-center justify-center gap-16 p-8 select-none"
+    >
+      <div role="list" aria-label={locale.strings.theSequence} className="flex flex-wrap items-center justify-center gap-6">
+        {layout.map((placement, idx) => (
+          // Empty slots keep the row from shifting as cards arrive
+          <div key={placement.card.id} role="listitem" className="w-32 h-48 md:w-40 md:h-60">
+            {idx < state.placed && (
+              <motion.div initial={{ opacity: 0, y: -60 }} animate={{ opacity: 1, y: 0 }} transition={{ type: 'spring', stiffness: 260, damping: 22 }}>
+                {placement.faceDown ? (
+                  <FlipCard trick={trick} step={state.step} label={placementLabel(placement, idx, trick, isRevealed, locale)} />
+                ) : (
+                  <CardView
+                    card={placement.card}
+                    orientation={showsOrientation ? (placement.reversed ? 'reversed' : 'upright') : undefined}
+                    label={placementLabel(placement, idx, trick, isRevealed, locale)}
+                    size="lg"
+                    layoutId={`present-${placement.card.id}`}
+                  />
+                )}
+              </motion.div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {trick.hiddenSlot === undefined && (
+        <div className="w-32 h-48 md:w-40 md:h-60">
+          {state.placed === cards && (
+            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+              <FlipCard trick={trick} step={state.step} label={isRevealed ? `${cardLabel(trick.hidden, locale)}, ${locale.strings.hiddenCard}` : locale.strings.hiddenFaceDown} />
+            </motion.div>
+          )}
+        </div>
+      )}
+
+      {showOverlay && (
+        <div
+          onClick={e => e.stopPropagation()}
+          className="fixed bottom-4 left-4 w-72 rounded-xl border border-white/10 bg-slate-900/90 p-4 text-xs text-slate-300 space-y-2"
+        >
+          <div className="flex items-center justify-between">
+            <span className="font-bold uppercase tracking-widest text-indigo-300">{presenter.title}</span>
+            <button onClick={onExit} aria-label={presenter.leave} className="p-1 rounded-full hover:bg-white/10">
+              <X size={14} />
+            </button>
+          </div>
+          <div className="text-sm text-white">{describeNextCue(state, cards, pacing, presenter)}</div>
+          <div>{presenter.hiddenCard} <span className="text-white">{cardName(trick.hidden, locale)}</span></div>
+          <div className="text-slate-500">{presenter.keys}</div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The hidden card, face down until the reveal; it pulses through the drum roll
+function FlipCard({ trick, step, label }: { trick: Trick; step: PresentationStep; label: string }) {
+  return (
+    <motion.div
+      role="img"
+      aria-label={label}
+      animate={step === 'drum-roll' ? { scale: [1, 1.05, 1] } : { scale: 1 }}
+      transition={step === 'drum-roll' ? { repeat: Infinity, duration: 0.4 } : undefined}
+      className="relative w-32 h-48 md:w-40 md:h-60 perspective-1000"
+    >
+      <motion.div
+        aria-hidden
+        animate={{ rotateY: step === 'revealed' ? 180 : 0 }}
+        transition={{ duration: 0.8, type: "spring" }}
+        className="w-full h-full relative preserve-3d"
+      >
+        <div className="absolute inset-0 backface-hidden">
+          <CardView isFaceDown size="lg" layoutId="present-back" />
+        </div>
+        <div className="absolute inset-0 backface-hidden rotate-y-180">
+          <CardView card={trick.hidden} size="lg" layoutId="present-hidden" />
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
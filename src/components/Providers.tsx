@@ -0,0 +1,14 @@
+import type { ReactNode } from 'react';
+import { type CardStyle, CardStyleContext } from './cardThemes';
+import { type Locale, LocaleContext } from '../i18n/locales';
+
+// --- PROVIDERS ---
+// The contexts the app's screens read from its settings: how cards are drawn and which language they speak.
+
+export function Providers({ cardStyle, locale, children }: { cardStyle: CardStyle; locale: Locale; children: ReactNode }) {
+  return (
+    <CardStyleContext value={cardStyle}>
+      <LocaleContext value={locale}>{children}</LocaleContext>
+    </CardStyleContext>
+  );
+}
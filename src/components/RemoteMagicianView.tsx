@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Eye, Radio } from 'lucide-react';
+import { type Card, type TrickConfig, DEFAULT_VARIANT, VARIANTS, describeProtocolError, revealTrick, tableLayout } from '../protocol';
+import { useLocale } from '../i18n/locales';
+import { type SequenceMessage, describeSyncError, readSequence } from '../sync/session';
+import type { TransportStatus } from '../sync/transport';
+import { CardView } from './CardView';
+import { placementLabel } from './labels';
+
+// --- REMOTE MAGICIAN ---
+// The magician's screen in a linked session. It only ever receives the shown cards, decodes
+// them locally with its own settings, and reveals the hidden card when the magician taps.
+
+export function RemoteMagicianView({ deck, config, sequence, status, peerConnected }: {
+  deck: Card[];
+  config: TrickConfig;
+  sequence: SequenceMessage | null;
+  status: TransportStatus;
+  peerConnected: boolean;
+}) {
+  // Remember which sequence was revealed so a new one starts hidden again
+  const [revealedFor, setRevealedFor] = useState<SequenceMessage | null>(null);
+  const locale = useLocale();
+  const isRevealed = sequence !== null && revealedFor === sequence;
+
+  if (!sequence) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center gap-3 p-6 text-center">
+        <Radio size={32} className={peerConnected ? "text-emerald-400" : "text-slate-600"} />
+        <p className="text-sm text-slate-400">
+          {status !== 'open' ? 'Connecting to the session…' : peerConnected ? 'Waiting for the assistant to lay out the cards…' : 'Waiting for the assistant to join…'}
+        </p>
+      </div>
+    );
+  }
+
+  const read = readSequence(sequence, deck);
+  if (!read.ok) return <p className="p-6 text-sm text-red-400">{describeSyncError(read.error)}</p>;
+  const trick = revealTrick(read.value.shown, deck, config, read.value.marks);
+  if (!trick.ok) return <p className="p-6 text-sm text-red-400">{describeProtocolError(trick.error)}</p>;
+
+  const showsOrientation = config.protocol === 'general' && VARIANTS[config.variant ?? DEFAULT_VARIANT].reversals;
+  const reveal = () => setRevealedFor(sequence);
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center p-6 space-y-12 bg-gradient-to-b from-background to-black">
+      <div className="flex flex-col items-center w-full">
+        <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase mb-6 opacity-80 text-center">{locale.strings.theSequence}</h2>
+        <div role="list" aria-label={locale.strings.theSequence} className="flex flex-wrap items-center justify-center gap-3 sm:gap-6">
+          {tableLayout(trick.value).map((placement, idx) => (
+            <motion.div
+              key={placement.faceDown ? 'face-down' : placement.card.id}
+              role="listitem"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.3 + idx * 0.2 }}
+            >
+              {placement.faceDown ? (
+                <CardView
+                  card={isRevealed ? placement.card : undefined}
+                  isFaceDown={!isRevealed}
+                  onClick={isRevealed ? undefined : reveal}
+                  label={placementLabel(placement, idx, trick.value, isRevealed, locale) + (isRevealed ? '' : `; ${locale.strings.pressToReveal}`)}
+                  size="md"
+                />
+              ) : (
+                <CardView
+                  card={placement.card}
+                  orientation={showsOrientation ? (placement.reversed ? 'reversed' : 'upright') : undefined}
+                  label={placementLabel(placement, idx, trick.value, isRevealed, locale)}
+                  size="md"
+                />
+              )}
+            </motion.div>
+          ))}
+        </div>
+      </div>
+
+      {trick.value.hiddenSlot === undefined && isRevealed && (
+        <motion.div initial={{ opacity: 0, scale: 0.8 }} animate={{ opacity: 1, scale: 1 }} className="flex flex-col items-center">
+          <h2 className="text-indigo-400 text-sm font-bold tracking-widest uppercase mb-4 opacity-80 text-center">{locale.strings.theHiddenCard}</h2>
+          <CardView card={trick.value.hidden} size="lg" />
+        </motion.div>
+      )}
+
+      {!isRevealed && (
+        <button
+          onClick={reveal}
+          className="flex items-center gap-2 px-6 py-3 bg-white text-black font-bold rounded-full shadow-[0_0_30px_rgba(255,255,255,0.3)] hover:scale-105 active:scale-95 transition-transform"
+        >
+          <Eye size={18} />
+          {locale.strings.reveal}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { FolderOpen, Link2, Link2Off, RefreshCw, X } from 'lucide-react';
+import { decodePerformance, describeShareError, normalizeShareCode } from '../share/shareCode';
+import {
+  type SessionRole,
+  type SessionSettings,
+  type TransportKind,
+  createPairingCode,
+  normalizePairingCode,
+} from '../sync/session';
+import { type TransportStatus, DEFAULT_RELAY_PORT } from '../sync/transport';
+import { cn } from '../utils';
+
+const ROLES: { id: SessionRole; label: string; description: string }[] = [
+  { id: 'assistant', label: 'Assistant', description: 'Selects the hand and lays out the sequence' },
+  { id: 'magician', label: 'Magician', description: 'Receives only the shown cards and names the hidden one' },
+];
+
+const TRANSPORTS: { id: TransportKind; label: string; description: string }[] = [
+  { id: 'broadcast', label: 'This browser', description: 'Another tab or window on this device' },
+  { id: 'relay', label: 'Relay', description: 'Another device on this network, through the relay started with npm run relay' },
+];
+
+const STATUS_LABELS: Record<TransportStatus, string> = {
+  connecting: 'Connecting…',
+  open: 'Connected',
+  closed: 'Disconnected',
+};
+
+const defaultRelayUrl = () => `ws://${window.location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`;
+
+// --- SESSION ---
+// Pairs this screen with another one so the assistant and the magician can be apart.
+
+export function SessionPanel({ session, status, peerConnected, onConnect, onDisconnect, onOpenShareCode, onClose }: {
+  session: SessionSettings | null;
+  status: TransportStatus;
+  peerConnected: boolean;
+  onConnect: (settings: SessionSettings) => void;
+  onDisconnect: () => void;
+  onOpenShareCode: (code: string) => void;
+  onClose: () => void;
+}) {
+  const [role, setRole] = useState<SessionRole>('assistant');
+  const [transport, setTransport] = useState<TransportKind>('broadcast');
+  const [relayUrl, setRelayUrl] = useState(defaultRelayUrl);
+  const [generatedCode, setGeneratedCode] = useState(() => createPairingCode());
+  const [typedCode, setTypedCode] = useState('');
+
+  const code = role === 'assistant' ? generatedCode : normalizePairingCode(typedCode);
+  const isRelayUrlValid = URL.canParse(relayUrl) && /^wss?:$/.test(new URL(relayUrl).protocol);
+  const canConnect = !!code && (transport === 'broadcast' || isRelayUrlValid);
+
+  const connect = () => {
+    if (!code || !canConnect) return;
+    onConnect({ role, code, transport, relayUrl });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="flex-1 overflow-y-auto p-6"
+    >
+      <div className="w-full max-w-md mx-auto space-y-8">
+        {session ? (
+          <section className="space-y-4 text-center">
+            <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">
+              {session.role === 'assistant' ? 'Assistant' : 'Magician'} Session
+            </h2>
+            <div className="text-5xl font-mono font-bold tracking-[0.3em]">{session.code}</div>
+            <div className="text-xs text-slate-400">
+              {TRANSPORTS.find(t => t.id === session.transport)?.label}
+              {session.transport === 'relay' && ` · ${session.relayUrl}`}
+            </div>
+            <div className="flex justify-center gap-3 text-xs">
+              <span className={cn(status === 'open' ? "text-emerald-400" : "text-amber-400")}>{STATUS_LABELS[status]}</span>
+              <span className={cn(peerConnected ? "text-emerald-400" : "text-slate-500")}>
+                {peerConnected ? `${session.role === 'assistant' ? 'Magician' : 'Assistant'} joined` : 'Waiting for the other screen'}
+              </span>
+            </div>
+            <button
+              onClick={onDisconnect}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+            >
+              <Link2Off size={16} />
+              Disconnect
+            </button>
+          </section>
+        ) : (
+          <>
+            <OptionSection title="Role" options={ROLES} value={role} onChange={setRole} />
+            <OptionSection title="Connection" options={TRANSPORTS} value={transport} onChange={setTransport} />
+
+            {transport === 'relay' && (
+              <input
+                value={relayUrl}
+                onChange={e => setRelayUrl(e.target.value)}
+                className={cn(
+                  "w-full rounded-xl border bg-white/5 px-3 py-2 text-sm font-mono outline-none",
+                  isRelayUrlValid ? "border-white/10 focus:border-indigo-500" : "border-red-500/60"
+                )}
+              />
+            )}
+
+            <section className="space-y-3">
+              <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">Pairing Code</h2>
+              {role === 'assistant' ? (
+                <div className="flex items-center gap-3">
+                  <span className="text-3xl font-mono font-bold tracking-[0.3em]">{generatedCode}</span>
+                  <button
+                    onClick={() => setGeneratedCode(createPairingCode())}
+                    className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/10"
+                  >
+                    <RefreshCw size={16} />
+                  </button>
+                </div>
+              ) : (
+                <input
+                  value={typedCode}
+                  onChange={e => setTypedCode(e.target.value)}
+                  placeholder="Code shown on the assistant's screen"
+                  className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-lg font-mono uppercase tracking-[0.3em] outline-none focus:border-indigo-500"
+                />
+              )}
+            </section>
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={onClose}
+                className="flex items-center gap-2 px-4 py-2 text-sm rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+              >
+                <X size={16} />
+                Cancel
+              </button>
+              <button
+                onClick={connect}
+                disabled={!canConnect}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-bold rounded-full bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 transition-colors"
+              >
+                <Link2 size={16} />
+                Connect
+              </button>
+            </div>
+          </>
+        )}
+
+        <ShareCodeSection onOpen={onOpenShareCode} />
+      </div>
+    </motion.div>
+  );
+}
+
+// A performance sent by a partner as a short code rather than a link
+function ShareCodeSection({ onOpen }: { onOpen: (code: string) => void }) {
+  const [typed, setTyped] = useState('');
+  const decoded = typed.trim() ? decodePerformance(typed) : null;
+
+  return (
+    <section className="space-y-3 border-t border-white/10 pt-6">
+      <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">Open a Share Code</h2>
+      <div className="flex gap-2">
+        <input
+          value={typed}
+          onChange={e => setTyped(e.target.value)}
+          placeholder="Code from the stage screen"
+          className="min-w-0 flex-1 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm font-mono uppercase tracking-widest outline-none focus:border-indigo-500"
+        />
+        <button
+          onClick={() => onOpen(normalizeShareCode(typed))}
+          disabled={!decoded?.ok}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-bold rounded-full bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 transition-colors"
+        >
+          <FolderOpen size={16} />
+          Open
+        </button>
+      </div>
+      {decoded && !decoded.ok && <p className="text-xs text-red-400">{describeShareError(decoded.error)}</p>}
+    </section>
+  );
+}
+
+function OptionSection<T extends string>({ title, options, value, onChange }: {
+  title: string;
+  options: { id: T; label: string; description: string }[];
+  value: T;
+  onChange: (id: T) => void;
+}) {
+  return (
+    <section className="space-y-3">
+      <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">{title}</h2>
+      {options.map(o => (
+        <button
+          key={o.id}
+          onClick={() => onChange(o.id)}
+          className={cn(
+            "w-full text-left rounded-xl border p-3 transition-colors",
+            value === o.id ? "border-indigo-500 bg-indigo-500/10" : "border-white/10 hover:bg-white/5"
+          )}
+        >
+          <div className="text-sm font-bold">{o.label}</div>
+          <div className="text-xs text-slate-400">{o.description}</div>
+        </button>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,397 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Volume2, X } from 'lucide-react';
+import {
+  type CardOrderId,
+  type DeckId,
+  type OffsetTable,
+  type Permutation,
+  type ProtocolChoice,
+  type VariantId,
+  ALL_PERMUTATIONS,
+  CARD_ORDERS,
+  DECKS,
+  DEFAULT_VARIANT,
+  OFFSET_TABLE_PRESETS,
+  VARIANTS,
+  buildDeck,
+  checkDeckSupport,
+  describeCodebookError,
+  describeProtocolError,
+  formatPermutation,
+  makeCard,
+  maxDeckSize,
+  samePermutation,
+  validateOffsetTable,
+} from '../protocol';
+import type { AppSettings } from '../storage';
+import { cn } from '../utils';
+import { CardView } from './CardView';
+import { type LanguageSettings, LOCALES, cardIndex, cardName, definiteCardName } from '../i18n/locales';
+import { type Pacing, PACING_LIMITS } from '../performance/presentation';
+import { speak } from '../performance/speech';
+import { type Appearance, CARD_BACKS, CARD_THEMES, CardStyleContext, resolveCardStyle } from './cardThemes';
+
+// Hand sizes offered for the general protocol; larger hands no longer fit the layout
+const GENERAL_HAND_SIZES = [2, 3, 4, 5, 6, 7];
+
+// A number card and a court in the two suits the four-colour deck recolours
+const PREVIEW_CARDS = [makeCard('diamonds', 7), makeCard('clubs', 12)];
+
+// Shown in each language's own names
+const LANGUAGE_SAMPLE = makeCard('hearts', 12);
+
+// --- SETTINGS ---
+// Edits what the assistant and the magician must agree on: the deck, the protocol, which
+// ordering of the Small/Medium/Large code cards stands for each offset, and how cards are ranked.
+// The card design, pacing and language are this screen's own choices.
+
+export function SettingsView({ settings, onSave, onClose }: {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+}) {
+  const [deckId, setDeckId] = useState<DeckId>(settings.deckId);
+  const [protocol, setProtocol] = useState<ProtocolChoice>(settings.protocol);
+  const [variant, setVariant] = useState<VariantId>(
+    settings.protocol.protocol === 'general' ? settings.protocol.variant ?? DEFAULT_VARIANT : DEFAULT_VARIANT
+  );
+  const [table, setTable] = useState<OffsetTable>(settings.codebook.table);
+  const [order, setOrder] = useState<CardOrderId>(settings.codebook.order);
+  const [appearance, setAppearance] = useState<Appearance>(settings.appearance);
+  const [pacing, setPacing] = useState<Pacing>(settings.pacing);
+  const [language, setLanguage] = useState<LanguageSettings>(settings.language);
+
+  const deck = useMemo(() => buildDeck(DECKS[deckId]), [deckId]);
+  const deckSize = deck.length;
+  const handSizes = GENERAL_HAND_SIZES.filter(k => k <= deckSize && maxDeckSize(k, variant) >= deckSize);
+
+  const validation = validateOffsetTable(table);
+  // Refuse deck/protocol combinations that cannot encode every hand
+  const unsupported = checkDeckSupport(deck, protocol);
+  const error = unsupported ? describeProtocolError(unsupported) : !validation.ok ? describeCodebookError(validation.error) : null;
+
+  const setEntry = (offset: number, permutation: Permutation) => {
+    setTable(t => t.map((p, i) => (i === offset - 1 ? permutation : p)));
+  };
+
+  const chooseVariant = (id: VariantId) => {
+    setVariant(id);
+    setProtocol(p => (p.protocol === 'general' ? { ...p, variant: id } : p));
+  };
+
+  const save = () => {
+    if (!validation.ok || unsupported) return;
+    onSave({ codebook: { table: validation.value, order }, protocol, deckId, appearance, pacing, language });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="flex-1 overflow-y-auto p-6"
+    >
+      <div className="w-full max-w-md mx-auto space-y-8">
+        <section className="space-y-3">
+          <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">Deck</h2>
+          {Object.values(DECKS).map(d => (
+            <button
+              key={d.id}
+              onClick={() => setDeckId(d.id)}
+              className={cn(
+                "w-full text-left rounded-xl border p-3 transition-colors",
+                deckId === d.id ? "border-indigo-500 bg-indigo-500/10" : "border-white/10 hover:bg-white/5"
+              )}
+            >
+              <div className="text-sm font-bold">{d.name}</div>
+              <div className="text-xs text-slate-400">{d.description}</div>
+            </button>
+          ))}
+        </section>
+
+        <CardDesignSection appearance={appearance} onChange={setAppearance} />
+
+        <PresentationSection pacing={pacing} onChange={setPacing} />
+
+        <LanguageSection language={language} onChange={setLanguage} />
+
+        <section className="space-y-3">
+          <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">Protocol</h2>
+          <button
+            onClick={() => setProtocol({ protocol: 'classic' })}
+            className={cn(
+              "w-full text-left rounded-xl border p-3 transition-colors",
+              protocol.protocol === 'classic' ? "border-indigo-500 bg-indigo-500/10" : "border-white/10 hover:bg-white/5"
+            )}
+          >
+            <div className="text-sm font-bold">Classic clock</div>
+            <div className="text-xs text-slate-400">Five cards from a 52-card deck: suit pair, 13-hour clock and a permutation of three</div>
+          </button>
+          <div
+            className={cn(
+              "rounded-xl border p-3 transition-colors",
+              protocol.protocol === 'general' ? "border-indigo-500 bg-indigo-500/10" : "border-white/10"
+            )}
+          >
+            <div className="text-sm font-bold">General k-card</div>
+            <div className="text-xs text-slate-400 mb-2">
+              Hide one of k cards using the order of the rest; works for decks of up to k! + k - 1 cards,
+              more when the layout also uses reversed or face-down cards
+            </div>
+            <div className="flex flex-wrap gap-1 mb-2">
+              {Object.values(VARIANTS).map(v => (
+                <button
+                  key={v.id}
+                  onClick={() => chooseVariant(v.id)}
+                  title={v.description}
+                  className={cn(
+                    "px-2 py-1 text-xs rounded-md border transition-colors",
+                    variant === v.id ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-white/10 text-slate-400 hover:text-white"
+                  )}
+                >
+                  {v.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {handSizes.map(k => (
+                <button
+                  key={k}
+                  onClick={() => setProtocol({ protocol: 'general', handSize: k, variant })}
+                  className={cn(
+                    "px-2 py-1 text-xs rounded-md border transition-colors",
+                    protocol.protocol === 'general' && protocol.handSize === k ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-white/10 text-slate-400 hover:text-white"
+                  )}
+                >
+                  {k} of {deckSize}
+                </button>
+              ))}
+            </div>
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">Card Order</h2>
+          {Object.values(CARD_ORDERS).map(o => (
+            <button
+              key={o.id}
+              onClick={() => setOrder(o.id)}
+              className={cn(
+                "w-full text-left rounded-xl border p-3 transition-colors",
+                order === o.id ? "border-indigo-500 bg-indigo-500/10" : "border-white/10 hover:bg-white/5"
+              )}
+            >
+              <div className="text-sm font-bold">{o.label}</div>
+              <div className="text-xs text-slate-400">{o.description}</div>
+            </button>
+          ))}
+        </section>
+
+        {protocol.protocol === 'classic' && (
+          <section className="space-y-3">
+            <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">Offset Table</h2>
+            <div className="flex flex-wrap gap-2">
+              {Object.values(OFFSET_TABLE_PRESETS).map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => setTable(preset.table)}
+                  className="px-3 py-1 text-xs rounded-full border border-white/10 text-slate-300 hover:text-white hover:bg-white/5"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              {table.map((permutation, i) => (
+                <div key={i} className="flex items-center gap-3">
+                  <span className="w-8 text-right font-mono text-slate-400">+{i + 1}</span>
+                  <div className="flex flex-wrap gap-1">
+                    {ALL_PERMUTATIONS.map(p => (
+                      <button
+                        key={formatPermutation(p)}
+                        onClick={() => setEntry(i + 1, p)}
+                        className={cn(
+                          "px-2 py-1 font-mono text-xs rounded-md border transition-colors",
+                          samePermutation(p, permutation) ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-white/10 text-slate-500 hover:text-white"
+                        )}
+                      >
+                        {formatPermutation(p)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+          </section>
+        )}
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="flex items-center gap-2 px-4 py-2 text-sm rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+          >
+            <X size={16} />
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={!!error}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-bold rounded-full bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 transition-colors"
+          >
+            <Check size={16} />
+            Save
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+function CardDesignSection({ appearance, onChange }: { appearance: Appearance; onChange: (appearance: Appearance) => void }) {
+  const set = (change: Partial<Appearance>) => onChange({ ...appearance, ...change });
+  return (
+    <section className="space-y-3">
+      <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">Card Design</h2>
+      <CardStyleContext value={resolveCardStyle(appearance)}>
+        <div className="flex justify-center gap-3" aria-hidden>
+          {PREVIEW_CARDS.map(card => <CardView key={card.id} card={card} size="md" layoutId={`preview-${card.id}`} />)}
+          <CardView isFaceDown size="md" layoutId="preview-back" />
+        </div>
+      </CardStyleContext>
+      {Object.values(CARD_THEMES).map(theme => (
+        <button
+          key={theme.id}
+          onClick={() => set({ theme: theme.id })}
+          className={cn(
+            "w-full text-left rounded-xl border p-3 transition-colors",
+            appearance.theme === theme.id ? "border-indigo-500 bg-indigo-500/10" : "border-white/10 hover:bg-white/5"
+          )}
+        >
+          <div className="text-sm font-bold">{theme.name}</div>
+          <div className="text-xs text-slate-400">{theme.description}</div>
+        </button>
+      ))}
+      <div className="flex flex-wrap gap-1">
+        {Object.values(CARD_BACKS).map(back => (
+          <button
+            key={back.id}
+            onClick={() => set({ back: back.id })}
+            className={cn(
+              "px-2 py-1 text-xs rounded-md border transition-colors",
+              appearance.back === back.id ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-white/10 text-slate-400 hover:text-white"
+            )}
+          >
+            {back.name}
+          </button>
+        ))}
+        <button
+          onClick={() => set({ fourColour: !appearance.fourColour })}
+          aria-pressed={appearance.fourColour}
+          className={cn(
+            "ml-auto px-2 py-1 text-xs rounded-md border transition-colors",
+            appearance.fourColour ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-white/10 text-slate-400 hover:text-white"
+          )}
+        >
+          Four-colour suits
+        </button>
+      </div>
+    </section>
+  );
+}
+
+function PresentationSection({ pacing, onChange }: { pacing: Pacing; onChange: (pacing: Pacing) => void }) {
+  const set = (change: Partial<Pacing>) => onChange({ ...pacing, ...change });
+  const toggle = (label: string, value: boolean, change: (value: boolean) => Partial<Pacing>) => (
+    <button
+      onClick={() => set(change(!value))}
+      aria-pressed={value}
+      className={cn(
+        "px-2 py-1 text-xs rounded-md border transition-colors",
+        value ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-white/10 text-slate-400 hover:text-white"
+      )}
+    >
+      {label}
+    </button>
+  );
+  const slider = (label: string, key: 'cardIntervalMs' | 'drumRollMs', disabled = false) => (
+    <label className={cn("flex items-center gap-3 text-xs text-slate-400", disabled && "opacity-40")}>
+      <span className="w-24">{label}</span>
+      <input
+        type="range"
+        {...PACING_LIMITS[key]}
+        value={pacing[key]}
+        disabled={disabled}
+        onChange={e => set({ [key]: Number(e.target.value) })}
+        className="flex-1 accent-indigo-500"
+      />
+      <span className="w-10 text-right font-mono">{(pacing[key] / 1000).toFixed(1)}s</span>
+    </label>
+  );
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">Presentation</h2>
+      <div className="flex flex-wrap gap-1">
+        {toggle('Place cards on keypress', pacing.placeOnKeypress, placeOnKeypress => ({ placeOnKeypress }))}
+        {toggle('Sound cues', pacing.sound, sound => ({ sound }))}
+      </div>
+      {slider('Between cards', 'cardIntervalMs', pacing.placeOnKeypress)}
+      {slider('Drum roll', 'drumRollMs')}
+      <p className="text-xs text-slate-500">
+        While presenting, O shows the presenter panel with the next cue and the hidden card. It starts hidden so a mirrored screen never shows the answer.
+      </p>
+    </section>
+  );
+}
+
+function LanguageSection({ language, onChange }: { language: LanguageSettings; onChange: (language: LanguageSettings) => void }) {
+  const locale = LOCALES[language.locale];
+  const sample = () => speak(locale.strings.spokenReveal(definiteCardName(LANGUAGE_SAMPLE, locale)), locale);
+  return (
+    <section className="space-y-3">
+      <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">Language</h2>
+      {Object.values(LOCALES).map(l => (
+        <button
+          key={l.id}
+          onClick={() => onChange({ ...language, locale: l.id })}
+          className={cn(
+            "w-full flex items-center justify-between text-left rounded-xl border p-3 transition-colors",
+            language.locale === l.id ? "border-indigo-500 bg-indigo-500/10" : "border-white/10 hover:bg-white/5"
+          )}
+        >
+          <span className="text-sm font-bold">{l.name}</span>
+          <span className="text-xs text-slate-400">
+            <span className="font-mono">{cardIndex(LANGUAGE_SAMPLE, l)}</span> · {cardName(LANGUAGE_SAMPLE, l)}
+          </span>
+        </button>
+      ))}
+      <div className="flex flex-wrap gap-1">
+        <button
+          onClick={() => onChange({ ...language, speak: !language.speak })}
+          aria-pressed={language.speak}
+          className={cn(
+            "px-2 py-1 text-xs rounded-md border transition-colors",
+            language.speak ? "border-indigo-500 bg-indigo-500/20 text-white" : "border-white/10 text-slate-400 hover:text-white"
+          )}
+        >
+          Read the sequence and reveal aloud
+        </button>
+        <button
+          onClick={sample}
+          className="ml-auto flex items-center gap-1 px-2 py-1 text-xs rounded-md border border-white/10 text-slate-400 hover:text-white"
+        >
+          <Volume2 size={12} />
+          Hear a sample
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        Changes the card indices and names, the performance screens and the spoken mode. Typed hands and share codes keep the English letters.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import { Check, Share2, X } from 'lucide-react';
+import { shareHash } from '../share/shareCode';
+import { type CopyState, copyText } from '../utils';
+
+// --- SHARE LINK ---
+// The performance's short code, and a link that opens it on another screen.
+
+export function ShareLink({ code }: { code: string }) {
+  const [copied, setCopied] = useState<CopyState>('idle');
+
+  const copy = () => {
+    const { origin, pathname, search } = window.location;
+    void copyText(origin + pathname + search + shareHash(code)).then(setCopied);
+  };
+
+  return (
+    <div className="mt-2 flex items-center justify-center gap-2 text-xs text-slate-500">
+      <span>Share code</span>
+      <span className="font-mono tracking-widest text-slate-300 select-all">{code}</span>
+      <button
+        onClick={copy}
+        onMouseLeave={() => setCopied('idle')}
+        className="flex items-center gap-1 px-2 py-1 rounded-full text-slate-400 hover:text-white hover:bg-white/10"
+      >
+        {copied === 'copied' ? <Check size={14} className="text-emerald-400" />
+          : copied === 'failed' ? <X size={14} className="text-red-400" />
+          : <Share2 size={14} />}
+        {copied === 'copied' ? 'Copied' : copied === 'failed' ? 'Copy failed; share the code' : 'Copy link'}
+      </button>
+    </div>
+  );
+}
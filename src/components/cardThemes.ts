@@ -0,0 +1,159 @@
+import { createContext, useContext } from 'react';
+import { type LucideIcon, Crown, Flower2, Sparkles, Star, Sword } from 'lucide-react';
+import { type Suit, type SuitColor, SUIT_DEFINITIONS } from '../protocol';
+
+// --- CARD THEMES ---
+// How cards are drawn, as data: the face layout, court art, card stock and ink colours. The back
+// design and the four-colour option are chosen separately in Settings, so any back goes with
+// any theme. CardView reads the resolved style from CardStyleContext.
+
+export type CardThemeId = 'classic' | 'minimal' | 'parlour';
+export type CardBackId = 'sparkles' | 'lattice' | 'stripes' | 'stars';
+
+// pips: number cards show their pips and court cards their art; index: a single large suit symbol
+export type FaceLayout = 'pips' | 'index';
+export type CourtArt = 'figures' | 'letters';
+
+export interface CardTheme {
+  id: CardThemeId;
+  name: string;
+  description: string;
+  face: FaceLayout;
+  court: CourtArt;
+  // CSS colours
+  paper: string;
+  border: string;
+  ink: Record<SuitColor, string>;
+}
+
+export interface CardBack {
+  id: CardBackId;
+  name: string;
+  // CSS background, drawn over `base`
+  base: string;
+  pattern: string;
+  border: string;
+  emblem?: LucideIcon;
+  emblemColor?: string;
+}
+
+// What the performer picks in Settings
+export interface Appearance {
+  theme: CardThemeId;
+  back: CardBackId;
+  // Clubs green and diamonds blue, so all four suits differ at a glance
+  fourColour: boolean;
+}
+
+// --- CONSTANTS ---
+
+const STANDARD_INK: Record<SuitColor, string> = { black: '#000000', red: '#ef4444', blue: '#2563eb', purple: '#9333ea' };
+
+export const CARD_THEMES: Record<CardThemeId, CardTheme> = {
+  classic: {
+    id: 'classic',
+    name: 'Classic',
+    description: 'Pips on the number cards and figures on the courts',
+    face: 'pips',
+    court: 'figures',
+    paper: '#f1f5f9',
+    border: '#cbd5e1',
+    ink: STANDARD_INK,
+  },
+  minimal: {
+    id: 'minimal',
+    name: 'Minimal',
+    description: 'One large suit symbol per card, easy to read from a distance',
+    face: 'index',
+    court: 'letters',
+    paper: '#f1f5f9',
+    border: '#cbd5e1',
+    ink: STANDARD_INK,
+  },
+  parlour: {
+    id: 'parlour',
+    name: 'Parlour',
+    description: 'Ivory stock, deep inks and lettered courts',
+    face: 'pips',
+    court: 'letters',
+    paper: '#fdf6e3',
+    border: '#d6c7a1',
+    ink: { black: '#1c1917', red: '#b91c1c', blue: '#1e3a8a', purple: '#6b21a8' },
+  },
+};
+
+export const CARD_BACKS: Record<CardBackId, CardBack> = {
+  sparkles: {
+    id: 'sparkles',
+    name: 'Sparkles',
+    base: '#0f172a',
+    pattern: 'radial-gradient(ellipse at center, rgba(99, 102, 241, 0.2), rgba(88, 28, 135, 0.2), transparent)',
+    border: 'rgba(49, 46, 129, 0.5)',
+    emblem: Sparkles,
+    emblemColor: 'rgba(129, 140, 248, 0.5)',
+  },
+  lattice: {
+    id: 'lattice',
+    name: 'Lattice',
+    base: '#1e3a8a',
+    pattern: 'repeating-linear-gradient(45deg, rgba(255, 255, 255, 0.15) 0 2px, transparent 2px 10px), repeating-linear-gradient(-45deg, rgba(255, 255, 255, 0.15) 0 2px, transparent 2px 10px)',
+    border: '#f8fafc',
+  },
+  stripes: {
+    id: 'stripes',
+    name: 'Stripes',
+    base: '#991b1b',
+    pattern: 'repeating-linear-gradient(90deg, rgba(255, 255, 255, 0.12) 0 3px, transparent 3px 8px)',
+    border: '#f8fafc',
+  },
+  stars: {
+    id: 'stars',
+    name: 'Night sky',
+    base: '#020617',
+    pattern: 'radial-gradient(circle at 20% 30%, rgba(255, 255, 255, 0.5) 0 1px, transparent 2px), radial-gradient(circle at 70% 60%, rgba(255, 255, 255, 0.4) 0 1px, transparent 2px)',
+    border: 'rgba(148, 163, 184, 0.4)',
+    emblem: Star,
+    emblemColor: 'rgba(226, 232, 240, 0.6)',
+  },
+};
+
+export const DEFAULT_APPEARANCE: Appearance = { theme: 'classic', back: 'sparkles', fourColour: false };
+
+const FOUR_COLOUR_INK: Partial<Record<Suit, string>> = { clubs: '#15803d', diamonds: '#1d4ed8' };
+
+// Pip centres for Ace to 10, as percentages of the pip area; pips below the middle are drawn upside down
+export const PIP_LAYOUTS: Record<number, [number, number][]> = {
+  1: [[50, 50]],
+  2: [[50, 0], [50, 100]],
+  3: [[50, 0], [50, 50], [50, 100]],
+  4: [[0, 0], [100, 0], [0, 100], [100, 100]],
+  5: [[0, 0], [100, 0], [50, 50], [0, 100], [100, 100]],
+  6: [[0, 0], [100, 0], [0, 50], [100, 50], [0, 100], [100, 100]],
+  7: [[0, 0], [100, 0], [50, 25], [0, 50], [100, 50], [0, 100], [100, 100]],
+  8: [[0, 0], [100, 0], [50, 25], [0, 50], [100, 50], [50, 75], [0, 100], [100, 100]],
+  9: [[0, 0], [100, 0], [0, 33], [100, 33], [50, 50], [0, 67], [100, 67], [0, 100], [100, 100]],
+  10: [[0, 0], [100, 0], [50, 17], [0, 33], [100, 33], [0, 67], [100, 67], [50, 83], [0, 100], [100, 100]],
+};
+
+export const COURT_FIGURES: Record<number, LucideIcon> = { 11: Sword, 12: Flower2, 13: Crown };
+
+// --- RESOLVED STYLE ---
+
+export interface CardStyle {
+  theme: CardTheme;
+  back: CardBack;
+  ink: (suit: Suit) => string;
+}
+
+export function resolveCardStyle({ theme: themeId, back, fourColour }: Appearance): CardStyle {
+  const theme = CARD_THEMES[themeId];
+  return {
+    theme,
+    back: CARD_BACKS[back],
+    ink: suit => (fourColour && FOUR_COLOUR_INK[suit]) || theme.ink[SUIT_DEFINITIONS[suit].color],
+  };
+}
+
+export const CardStyleContext = createContext<CardStyle>(resolveCardStyle(DEFAULT_APPEARANCE));
+
+export const useCardStyle = () => useContext(CardStyleContext);
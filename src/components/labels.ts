@@ -0,0 +1,25 @@
+import type { Card, Placement, Trick } from '../protocol';
+import { type Locale, cardName } from '../i18n/locales';
+
+// --- SCREEN READER LABELS ---
+// Cards are read out in words ("Queen of hearts"), with their part in the sequence where it matters,
+// in the performer's language.
+
+export const cardLabel = (card: Card, locale: Locale, reversed = false) =>
+  cardName(card, locale) + (reversed ? `, ${locale.strings.reversed}` : '');
+
+// The classic protocol's first shown card is the indicator; the general protocol reads the row as a whole.
+export function placementLabel(placement: Placement, position: number, trick: Trick, isRevealed: boolean, locale: Locale): string {
+  const { strings } = locale;
+  if (placement.faceDown) {
+    return isRevealed ? `${cardLabel(placement.card, locale)}, ${strings.hiddenCard}` : strings.hiddenFaceDown;
+  }
+  const label = cardLabel(placement.card, locale, placement.reversed);
+  if (trick.detail.protocol !== 'classic') return `${label}, ${strings.sequenceCard(position + 1)}`;
+  return `${label}, ${position === 0 ? strings.indicatorCard : strings.codeCard(position)}`;
+}
+
+export const handAnnouncement = (hand: Card[], handSize: number, locale: Locale) =>
+  hand.length === 0
+    ? locale.strings.handEmpty
+    : locale.strings.handHas(hand.length, handSize, hand.map(card => cardName(card, locale)).join(', '));
@@ -0,0 +1,21 @@
+import { Club, Diamond, Heart, Spade, Star, Sparkle } from 'lucide-react';
+import { type Suit, type SuitColor, type SuitSymbol, SUIT_DEFINITIONS } from '../protocol';
+
+export const SUIT_ICONS: Record<SuitSymbol, typeof Spade> = {
+  spade: Spade,
+  heart: Heart,
+  club: Club,
+  diamond: Diamond,
+  star: Star,
+  joker: Sparkle,
+};
+
+// Inactive suit tabs sit on a dark background, so black suits are drawn grey
+export const SUIT_TAB_COLORS: Record<SuitColor, string> = {
+  black: 'text-zinc-400',
+  red: 'text-red-500',
+  blue: 'text-blue-400',
+  purple: 'text-purple-400',
+};
+
+export const suitTabColor = (suit: Suit) => SUIT_TAB_COLORS[SUIT_DEFINITIONS[suit].color];
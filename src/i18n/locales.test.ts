@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DECKS, buildDeck, makeCard } from '../protocol';
+import { LOCALES, cardIndex, cardName, definiteCardName, matchLocale } from './locales';
+
+const queen = makeCard('hearts', 12);
+const seven = makeCard('clubs', 7);
+const blackJoker = makeCard('jokers', 14, 'B');
+
+describe('locales', () => {
+  it('prints each language\'s own court letters', () => {
+    expect(cardIndex(queen, LOCALES.en)).toBe('Q');
+    expect(cardIndex(queen, LOCALES.de)).toBe('D');
+    expect([11, 12, 13].map(v => cardIndex(makeCard('spades', v), LOCALES.fr))).toEqual(['V', 'D', 'R']);
+    expect(cardIndex(seven, LOCALES.de)).toBe('7');
+  });
+
+  it('gives every value of a deck its own index', () => {
+    const values = [...new Map(buildDeck(DECKS['standard-jokers']).map(c => [c.value, c])).values()];
+    for (const locale of Object.values(LOCALES)) expect(new Set(values.map(c => cardIndex(c, locale))).size).toBe(values.length);
+  });
+
+  it('names cards in each language', () => {
+    expect(cardName(queen, LOCALES.en)).toBe('Queen of hearts');
+    expect(cardName(queen, LOCALES.de)).toBe('Herz-Dame');
+    expect(cardName(queen, LOCALES.fr)).toBe('Dame de cœur');
+    expect(cardName(seven, LOCALES.fr)).toBe('7 de trèfle');
+    expect(cardName(blackJoker, LOCALES.en)).toBe('Black joker');
+    expect(cardName(blackJoker, LOCALES.fr)).toBe('Joker noir');
+  });
+
+  it('puts the article in front of a card named in a sentence', () => {
+    expect(LOCALES.en.strings.spokenReveal(definiteCardName(queen, LOCALES.en))).toBe('Your card is the Queen of hearts!');
+    expect(LOCALES.de.strings.hiddenCardIs(definiteCardName(queen, LOCALES.de))).toBe('Die verdeckte Karte ist die Herz-Dame');
+    expect(LOCALES.fr.strings.spokenReveal(definiteCardName(queen, LOCALES.fr))).toBe('Votre carte est la Dame de cœur !');
+    expect(definiteCardName(makeCard('spades', 13), LOCALES.de)).toBe('der Pik-König');
+    expect(definiteCardName(makeCard('clubs', 1), LOCALES.de)).toBe('das Kreuz-Ass');
+    expect(definiteCardName(blackJoker, LOCALES.de)).toBe('der Schwarze Joker');
+    expect(definiteCardName(makeCard('diamonds', 1), LOCALES.fr)).toBe("l'As de carreau");
+    expect(definiteCardName(seven, LOCALES.fr)).toBe('le 7 de trèfle');
+  });
+
+  it('has every string in every language', () => {
+    const keys = Object.keys(LOCALES.en.strings).sort();
+    const presenterKeys = Object.keys(LOCALES.en.strings.presenter).sort();
+    for (const locale of Object.values(LOCALES)) {
+      expect(Object.keys(locale.strings).sort()).toEqual(keys);
+      expect(Object.keys(locale.strings.presenter).sort()).toEqual(presenterKeys);
+    }
+  });
+
+  it('picks the first preferred language the app has', () => {
+    expect(matchLocale(['nl-NL', 'fr-CA', 'de'])).toBe('fr');
+    expect(matchLocale(['DE-at'])).toBe('de');
+    expect(matchLocale(['nl'])).toBe('en');
+    expect(matchLocale([])).toBe('en');
+  });
+});
@@ -0,0 +1,295 @@
+import { createContext, useContext } from 'react';
+import type { Card, CardValue, Suit } from '../protocol';
+
+// --- TYPES ---
+
+export type LocaleId = 'en' | 'de' | 'fr';
+
+// The words on the performance screens: what the audience may see, and what screen readers and
+// spoken mode read out. The performer's tools (settings, practice, history) stay in English.
+export interface UiStrings {
+  modes: { assistant: string; magician: string; practice: string };
+  yourHand: (count: number, size: number) => string;
+  selectCards: (size: number) => string;
+  performMagic: string;
+  theSequence: string;
+  thePrediction: string;
+  theHiddenCard: string;
+  reveal: string;
+  backToHand: string;
+  explainArrangement: string;
+  presentFullScreen: string;
+  startOver: string;
+  undo: string;
+  redo: string;
+  suits: string;
+  cards: (count: number) => string;
+  // Screen reader labels
+  reversed: string;
+  hiddenCard: string;
+  hiddenFaceDown: string;
+  faceDownCard: string;
+  pressToReveal: string;
+  inHand: string;
+  indicatorCard: string;
+  codeCard: (n: number) => string;
+  sequenceCard: (n: number) => string;
+  handEmpty: string;
+  handHas: (count: number, size: number, cards: string) => string;
+  sequenceLaidOut: (cards: string) => string;
+  // Given the card with its article (definiteCardName)
+  hiddenCardIs: (card: string) => string;
+  // Under the sequence: the classic protocol's pair strategy, or the general protocol's settings and code
+  pairStrategy: (strategy: string) => string;
+  generalProtocol: (handSize: number, deckSize: number, variant: string, code: number) => string;
+  // Spoken mode; the reveal is given the card with its article
+  spokenSequence: (cards: string) => string;
+  spokenReveal: (card: string) => string;
+  // The presenter overlay of the full-screen presentation
+  presenter: {
+    title: string;
+    leave: string;
+    hiddenCard: string;
+    keys: string;
+    placeCard: (n: number, cards: number) => string;
+    placing: string;
+    drumRollThenReveal: string;
+    reveal: string;
+    drumRoll: string;
+    revealed: string;
+  };
+}
+
+export interface Locale {
+  id: LocaleId;
+  // In its own language, for the picker
+  name: string;
+  // Language tag given to speech synthesis
+  speechLang: string;
+  // Corner indices that differ from the deck's own labels (A, J, Q, K and the jokers' B and R); all distinct
+  indices: Partial<Record<CardValue, string>>;
+  rankWords: Partial<Record<CardValue, string>>;
+  // Suit tab names, and the suit as it appears in a card's name
+  suitNames: Record<Suit, string>;
+  suitWords: Record<Suit, string>;
+  // Puts a card's name together from its rank word and suit word
+  cardName: (rank: string, suit: string, card: Card) => string;
+  // Puts the definite article in front of a card's name ("the", "der/die/das", "le/la/l'")
+  definite: (name: string, card: Card) => string;
+  strings: UiStrings;
+}
+
+export interface LanguageSettings {
+  locale: LocaleId;
+  // Read the sequence and the reveal aloud
+  speak: boolean;
+}
+
+// --- LOCALES ---
+
+export const LOCALES: Record<LocaleId, Locale> = {
+  en: {
+    id: 'en',
+    name: 'English',
+    speechLang: 'en-GB',
+    indices: {},
+    rankWords: { 1: 'Ace', 11: 'Jack', 12: 'Queen', 13: 'King', 14: 'Black', 15: 'Red' },
+    suitNames: { clubs: 'Clubs', diamonds: 'Diamonds', hearts: 'Hearts', spades: 'Spades', stars: 'Stars', jokers: 'Jokers' },
+    suitWords: { clubs: 'clubs', diamonds: 'diamonds', hearts: 'hearts', spades: 'spades', stars: 'stars', jokers: 'joker' },
+    cardName: (rank, suit, card) => (card.suit === 'jokers' ? `${rank} ${suit}` : `${rank} of ${suit}`),
+    definite: name => `the ${name}`,
+    strings: {
+      modes: { assistant: 'Assistant', magician: 'Magician', practice: 'Practice' },
+      yourHand: (count, size) => `Your Hand (${count}/${size})`,
+      selectCards: size => `Select ${size} cards to begin...`,
+      performMagic: 'PERFORM MAGIC',
+      theSequence: 'The Sequence',
+      thePrediction: 'The Prediction',
+      theHiddenCard: 'The Hidden Card',
+      reveal: 'REVEAL',
+      backToHand: 'Back to the hand',
+      explainArrangement: 'Explain this arrangement',
+      presentFullScreen: 'Present full screen',
+      startOver: 'Start over',
+      undo: 'Undo',
+      redo: 'Redo',
+      suits: 'Suits',
+      cards: count => `${count} cards`,
+      reversed: 'reversed',
+      hiddenCard: 'hidden card',
+      hiddenFaceDown: 'Hidden card, face down',
+      faceDownCard: 'Face-down card',
+      pressToReveal: 'press to reveal',
+      inHand: 'in hand; press to remove',
+      indicatorCard: 'indicator card',
+      codeCard: n => `code card ${n}`,
+      sequenceCard: n => `card ${n} of the sequence`,
+      handEmpty: 'Hand is empty',
+      handHas: (count, size, cards) => `Hand has ${count} of ${size} cards: ${cards}`,
+      sequenceLaidOut: cards => `Sequence laid out: ${cards}`,
+      hiddenCardIs: card => `The hidden card is ${card}`,
+      pairStrategy: strategy => `Pair strategy: ${strategy}`,
+      generalProtocol: (handSize, deckSize, variant, code) => `General protocol: ${handSize} of ${deckSize}, ${variant}, code ${code}`,
+      spokenSequence: cards => `The sequence: ${cards}.`,
+      spokenReveal: card => `Your card is ${card}!`,
+      presenter: {
+        title: 'Presenter',
+        leave: 'Leave presentation',
+        hiddenCard: 'Hidden card:',
+        keys: 'Space / → next · ← back · R restart · F full screen · O hide this panel · Esc leave',
+        placeCard: (n, cards) => `Place card ${n} of ${cards}`,
+        placing: 'Placing the cards…',
+        drumRollThenReveal: 'Drum roll, then reveal',
+        reveal: 'Reveal',
+        drumRoll: 'Drum roll…',
+        revealed: 'Revealed; Esc to leave',
+      },
+    },
+  },
+  de: {
+    id: 'de',
+    name: 'Deutsch',
+    speechLang: 'de-DE',
+    indices: { 11: 'B', 12: 'D', 13: 'K', 14: 'S', 15: 'R' },
+    rankWords: { 1: 'Ass', 11: 'Bube', 12: 'Dame', 13: 'König', 14: 'Schwarzer', 15: 'Roter' },
+    suitNames: { clubs: 'Kreuz', diamonds: 'Karo', hearts: 'Herz', spades: 'Pik', stars: 'Sterne', jokers: 'Joker' },
+    suitWords: { clubs: 'Kreuz', diamonds: 'Karo', hearts: 'Herz', spades: 'Pik', stars: 'Stern', jokers: 'Joker' },
+    cardName: (rank, suit, card) => (card.suit === 'jokers' ? `${rank} ${suit}` : `${suit}-${rank}`),
+    // Ass is neuter, Bube and König masculine, Dame and the numbers (die Zehn) feminine; after
+    // "der" the jokers' adjective loses its -r
+    definite: (name, card) => (card.suit === 'jokers' ? `der ${name.replace(/r /, ' ')}`
+      : `${card.value === 1 ? 'das' : card.value === 11 || card.value === 13 ? 'der' : 'die'} ${name}`),
+    strings: {
+      modes: { assistant: 'Assistent', magician: 'Magier', practice: 'Üben' },
+      yourHand: (count, size) => `Deine Hand (${count}/${size})`,
+      selectCards: size => `Wähle ${size} Karten aus...`,
+      performMagic: 'ZAUBERN',
+      theSequence: 'Die Reihe',
+      thePrediction: 'Die Vorhersage',
+      theHiddenCard: 'Die verdeckte Karte',
+      reveal: 'AUFDECKEN',
+      backToHand: 'Zurück zur Hand',
+      explainArrangement: 'Diese Anordnung erklären',
+      presentFullScreen: 'Im Vollbild vorführen',
+      startOver: 'Von vorn',
+      undo: 'Rückgängig',
+      redo: 'Wiederholen',
+      suits: 'Farben',
+      cards: count => `${count} Karten`,
+      reversed: 'umgedreht',
+      hiddenCard: 'verdeckte Karte',
+      hiddenFaceDown: 'Die verdeckte Karte',
+      faceDownCard: 'Verdeckte Karte',
+      pressToReveal: 'zum Aufdecken drücken',
+      inHand: 'auf der Hand; zum Entfernen drücken',
+      indicatorCard: 'Anzeigekarte',
+      codeCard: n => `Codekarte ${n}`,
+      sequenceCard: n => `Karte ${n} der Reihe`,
+      handEmpty: 'Die Hand ist leer',
+      handHas: (count, size, cards) => `Die Hand hat ${count} von ${size} Karten: ${cards}`,
+      sequenceLaidOut: cards => `Die Reihe liegt aus: ${cards}`,
+      hiddenCardIs: card => `Die verdeckte Karte ist ${card}`,
+      pairStrategy: strategy => `Paarstrategie: ${strategy}`,
+      generalProtocol: (handSize, deckSize, variant, code) => `Allgemeines Protokoll: ${handSize} aus ${deckSize}, ${variant}, Code ${code}`,
+      spokenSequence: cards => `Die Reihe: ${cards}.`,
+      spokenReveal: card => `Deine Karte ist ${card}!`,
+      presenter: {
+        title: 'Vorführer',
+        leave: 'Vorführung beenden',
+        hiddenCard: 'Verdeckte Karte:',
+        keys: 'Leertaste / → weiter · ← zurück · R neu starten · F Vollbild · O Feld ausblenden · Esc beenden',
+        placeCard: (n, cards) => `Karte ${n} von ${cards} legen`,
+        placing: 'Die Karten werden gelegt…',
+        drumRollThenReveal: 'Trommelwirbel, dann aufdecken',
+        reveal: 'Aufdecken',
+        drumRoll: 'Trommelwirbel…',
+        revealed: 'Aufgedeckt; Esc zum Beenden',
+      },
+    },
+  },
+  fr: {
+    id: 'fr',
+    name: 'Français',
+    speechLang: 'fr-FR',
+    indices: { 11: 'V', 12: 'D', 13: 'R', 14: 'JN', 15: 'JR' },
+    rankWords: { 1: 'As', 11: 'Valet', 12: 'Dame', 13: 'Roi', 14: 'noir', 15: 'rouge' },
+    suitNames: { clubs: 'Trèfles', diamonds: 'Carreaux', hearts: 'Cœurs', spades: 'Piques', stars: 'Étoiles', jokers: 'Jokers' },
+    suitWords: { clubs: 'trèfle', diamonds: 'carreau', hearts: 'cœur', spades: 'pique', stars: 'étoile', jokers: 'Joker' },
+    cardName: (rank, suit, card) => (card.suit === 'jokers' ? `${suit} ${rank}` : `${rank} de ${suit}`),
+    definite: (name, card) => (card.value === 1 ? `l'${name}` : card.value === 12 ? `la ${name}` : `le ${name}`),
+    strings: {
+      modes: { assistant: 'Assistant', magician: 'Magicien', practice: 'Entraînement' },
+      yourHand: (count, size) => `Votre main (${count}/${size})`,
+      selectCards: size => `Choisissez ${size} cartes pour commencer...`,
+      performMagic: 'FAIRE LA MAGIE',
+      theSequence: 'La séquence',
+      thePrediction: 'La prédiction',
+      theHiddenCard: 'La carte cachée',
+      reveal: 'RÉVÉLER',
+      backToHand: 'Retour à la main',
+      explainArrangement: 'Expliquer cette disposition',
+      presentFullScreen: 'Présenter en plein écran',
+      startOver: 'Recommencer',
+      undo: 'Annuler',
+      redo: 'Rétablir',
+      suits: 'Couleurs',
+      cards: count => `${count} cartes`,
+      reversed: 'inversée',
+      hiddenCard: 'carte cachée',
+      hiddenFaceDown: 'Carte cachée, face cachée',
+      faceDownCard: 'Carte face cachée',
+      pressToReveal: 'appuyez pour révéler',
+      inHand: 'dans la main ; appuyez pour retirer',
+      indicatorCard: 'carte indicatrice',
+      codeCard: n => `carte de code ${n}`,
+      sequenceCard: n => `carte ${n} de la séquence`,
+      handEmpty: 'La main est vide',
+      handHas: (count, size, cards) => `La main a ${count} cartes sur ${size} : ${cards}`,
+      sequenceLaidOut: cards => `Séquence posée : ${cards}`,
+      hiddenCardIs: card => `La carte cachée est ${card}`,
+      pairStrategy: strategy => `Stratégie de paire : ${strategy}`,
+      generalProtocol: (handSize, deckSize, variant, code) => `Protocole général : ${handSize} parmi ${deckSize}, ${variant}, code ${code}`,
+      spokenSequence: cards => `La séquence : ${cards}.`,
+      spokenReveal: card => `Votre carte est ${card} !`,
+      presenter: {
+        title: 'Présentateur',
+        leave: 'Quitter la présentation',
+        hiddenCard: 'Carte cachée :',
+        keys: 'Espace / → suivant · ← retour · R recommencer · F plein écran · O masquer ce panneau · Échap quitter',
+        placeCard: (n, cards) => `Poser la carte ${n} sur ${cards}`,
+        placing: 'Pose des cartes…',
+        drumRollThenReveal: 'Roulement de tambour, puis révélation',
+        reveal: 'Révéler',
+        drumRoll: 'Roulement de tambour…',
+        revealed: 'Révélée ; Échap pour quitter',
+      },
+    },
+  },
+};
+
+export const DEFAULT_LANGUAGE: LanguageSettings = { locale: 'en', speak: false };
+
+// --- HELPERS ---
+
+// The first of the browser's preferred languages that the app speaks, by primary subtag
+export function matchLocale(languages: readonly string[]): LocaleId {
+  for (const tag of languages) {
+    const primary = tag.toLowerCase().split('-')[0];
+    if (Object.hasOwn(LOCALES, primary)) return primary as LocaleId;
+  }
+  return DEFAULT_LANGUAGE.locale;
+}
+
+// The rank as printed in the card's corner
+export const cardIndex = (card: Card, locale: Locale) => locale.indices[card.value] ?? card.displayValue;
+
+// The card in words ("Queen of hearts", "Herz-Dame", "Dame de cœur")
+export const cardName = (card: Card, locale: Locale) =>
+  locale.cardName(locale.rankWords[card.value] ?? card.displayValue, locale.suitWords[card.suit], card);
+
+// As named in a sentence ("the Queen of hearts", "die Herz-Dame", "la Dame de cœur")
+export const definiteCardName = (card: Card, locale: Locale) => locale.definite(cardName(card, locale), card);
+
+export const LocaleContext = createContext<Locale>(LOCALES[DEFAULT_LANGUAGE.locale]);
+
+export const useLocale = () => useContext(LocaleContext);
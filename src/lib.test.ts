@@ -0,0 +1,10 @@
+import { describe, expect, it } from 'vitest';
+
+describe('library entry', () => {
+  it('imports without a DOM', async () => {
+    expect(typeof HTMLElement).toBe('undefined');
+    const lib = await import('./lib');
+    expect(lib.defineCardTrickElement).toBeTypeOf('function');
+    expect(lib.resolveWidget({ hand: '2c 9h' }).ok).toBe(true);
+  });
+});
@@ -0,0 +1,18 @@
+// --- LIBRARY ---
+// Entry of `npm run build:lib` (card-trick.js, with React left to the host): the protocol with no
+// UI at all, the embeddable widget as a React component, and the <card-trick> custom element. It
+// imports without a DOM; the element's class only exists once defineCardTrickElement is called.
+
+export * from './protocol';
+export { type Locale, type LocaleId, LOCALES, cardIndex, cardName } from './i18n/locales';
+export { CardTrickWidget } from './widget/CardTrickWidget';
+export { type CardTrickElement, type CardTrickEventDetail, defineCardTrickElement } from './widget/element';
+export {
+  type CardTrickWidgetProps,
+  type WidgetError,
+  type WidgetOptions,
+  type WidgetVariant,
+  describeWidgetError,
+  resolveWidget,
+} from './widget/options';
+export { widgetStyles } from './widget/styles';
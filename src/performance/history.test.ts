@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { type Card, DECKS, buildDeck, createDeck, makeCard, performTrick, suitPriority } from '../protocol';
+import { type LogRecord, type LoggedPerformance, addToLog, exportLog, fromRecord, importLog, markRevealed, summarizeLog, toRecord } from './history';
+
+const hand = [makeCard('clubs', 2), makeCard('hearts', 9), makeCard('hearts', 3), makeCard('clubs', 5), makeCard('spades', 12)];
+
+function logged(performedAt: number, cards: Card[] = hand): LoggedPerformance {
+  const trick = performTrick(cards, createDeck(), { protocol: 'classic', pairStrategy: suitPriority() });
+  if (!trick.ok) throw new Error('expected a trick');
+  return { performedAt, deckId: 'standard', protocol: { protocol: 'classic' }, hand: cards, trick: trick.value, revealed: false };
+}
+
+// A face-down, reversals performance on the deck with jokers
+function loggedGeneral(performedAt: number): LoggedPerformance {
+  const deck = buildDeck(DECKS['standard-jokers']);
+  const cards = [deck[0], deck[20], deck[53], deck[40], deck[7]];
+  const protocol = { protocol: 'general' as const, handSize: 5, variant: 'reversals-face-down' as const };
+  const trick = performTrick(cards, deck, protocol);
+  if (!trick.ok) throw new Error('expected a trick');
+  return { performedAt, deckId: 'standard-jokers', protocol, hand: cards, trick: trick.value, revealed: true };
+}
+
+describe('performance history', () => {
+  it('keeps the newest first and marks reveals', () => {
+    const log = addToLog(addToLog([], logged(1000)), logged(3000), logged(2000));
+    expect(log.map(e => e.performedAt)).toEqual([3000, 2000, 1000]);
+    expect(markRevealed(log, 2000).map(e => e.revealed)).toEqual([false, true, false]);
+    expect(addToLog(log, { ...logged(2000), revealed: true })).toHaveLength(3);
+  });
+
+  it('round-trips through JSON and CSV', () => {
+    const log = [loggedGeneral(Date.UTC(2026, 0, 2)), { ...logged(Date.UTC(2026, 0, 1)), revealed: true }];
+    for (const format of ['json', 'csv'] as const) {
+      const imported = importLog(exportLog(log, format), format);
+      expect(imported).toEqual({ ok: true, value: log });
+    }
+  });
+
+  it('rejects a file with any unusable entry', () => {
+    const csv = exportLog([logged(Date.UTC(2026, 0, 1))], 'csv').replace('Qs', 'Zs');
+    expect(importLog(csv, 'csv')).toMatchObject({ ok: false, error: { kind: 'invalid-entry', entry: 1 } });
+    expect(importLog('performedAt,deck\n', 'csv')).toMatchObject({ ok: false, error: { kind: 'malformed' } });
+    expect(importLog('{"not": "a list"}', 'json')).toMatchObject({ ok: false, error: { kind: 'malformed' } });
+    expect(importLog('[{"performedAt": "2026-01-01", "deck": "tarot"}]', 'json')).toMatchObject({ ok: false, error: { reason: 'unknown deck "tarot"' } });
+    // Names inherited from Object are not decks
+    expect(importLog('[{"performedAt": "2026-01-01", "deck": "constructor", "protocol": "classic"}]', 'json'))
+      .toMatchObject({ ok: false, error: { reason: 'unknown deck "constructor"' } });
+    expect(fromRecord({ ...toRecord(logged(Date.UTC(2026, 0, 1))), strategy: 'toString' })).toEqual({ ok: false, error: 'unknown pair strategy "toString"' });
+  });
+
+  it('rejects arrangements the protocol could not have made', () => {
+    const classic = toRecord(logged(Date.UTC(2026, 0, 1)));
+    const general = toRecord(loggedGeneral(Date.UTC(2026, 0, 2)));
+    const [indicator, ...codeCards] = classic.shown.split(' ');
+    const offset = Number(classic.offset);
+    const rejects = (record: LogRecord, reason: string) =>
+      expect(importLog(JSON.stringify([record]), 'json')).toEqual({ ok: false, error: { kind: 'invalid-entry', entry: 1, reason } });
+
+    expect(importLog(JSON.stringify([classic, general]), 'json').ok).toBe(true);
+    rejects({ ...classic, hand: classic.hand.replace(classic.hidden, 'Ks') }, 'the shown and hidden cards are not the hand');
+    rejects({ ...classic, hidden: indicator }, 'the hidden card is also among the shown cards');
+    rejects({ ...classic, shown: codeCards.join(' ') }, '3 cards are shown; this protocol shows 4');
+    rejects({ ...general, handSize: 6 }, 'the hand has 5 cards; this protocol takes 6');
+    rejects({ ...general, handSize: 10 }, 'a general performance needs a hand size of 2 to 9');
+    rejects({ ...classic, offset: 0 }, 'the offset must be 1 to 6, not 0');
+    rejects({ ...classic, offset: 7 }, 'the offset must be 1 to 6, not 7');
+    rejects({ ...classic, offset: offset === 6 ? 5 : offset + 1 }, 'the offset does not lead from the indicator to the hidden card');
+    rejects({ ...general, code: Number(general.code) + 1 }, 'the shown cards do not decode to the hidden card');
+    rejects({ ...general, reversed: general.reversed === '0' ? '1' : '0' }, 'the shown cards do not decode to the hidden card');
+  });
+
+  it('counts offsets, hidden suits and strategies', () => {
+    const other = [makeCard('diamonds', 1), makeCard('diamonds', 4), makeCard('spades', 7), makeCard('clubs', 9), makeCard('hearts', 13)];
+    const log = [logged(1, other), { ...logged(2), revealed: true }, logged(3), loggedGeneral(4)];
+    const summary = summarizeLog(log);
+    const offset = log[1].trick.detail.protocol === 'classic' ? log[1].trick.detail.offset : 0;
+    expect(summary).toMatchObject({ performances: 4, revealed: 2, strategies: [['suit-priority', 3]] });
+    expect(summary.offsets[0]).toEqual([offset, 2]);
+    expect(summary.hiddenSuits[0][1]).toBeGreaterThanOrEqual(2);
+  });
+});
@@ -0,0 +1,296 @@
+import {
+  type Card,
+  type CardOrderId,
+  type DeckId,
+  type PairStrategyId,
+  type ProtocolChoice,
+  type Result,
+  type Suit,
+  type Trick,
+  type VariantId,
+  CARD_ORDERS,
+  DECKS,
+  MAX_OFFSET,
+  PAIR_STRATEGY_LABELS,
+  VARIANTS,
+  addOnClock,
+  buildDeck,
+  checkDeckSupport,
+  describeNotationError,
+  describeProtocolError,
+  err,
+  formatCard,
+  formatCards,
+  ok,
+  isSameCard,
+  makeCard,
+  parseCard,
+  parseCards,
+  revealTrick,
+  trickHandSize,
+  trickShownSize,
+} from '../protocol';
+import { MAX_HAND_SIZE } from '../share/shareCode';
+
+// --- PERFORMANCE HISTORY ---
+// A log of the assistant's past performances, kept in local storage and exported or imported
+// as JSON or CSV. In both formats cards are written in the letter notation (e.g. `Qh 3h 5c`)
+// and read back against the entry's own deck.
+
+// --- TYPES ---
+
+export interface LoggedPerformance {
+  performedAt: number;
+  deckId: DeckId;
+  protocol: ProtocolChoice;
+  // In pick order
+  hand: Card[];
+  // The arrangement; its detail holds the offset and pair strategy of a classic performance
+  trick: Trick;
+  revealed: boolean;
+}
+
+// One entry as written to storage and exports
+export interface LogRecord {
+  performedAt: string;
+  deck: string;
+  protocol: string;
+  handSize: number | '';
+  variant: string;
+  strategy: string;
+  hand: string;
+  shown: string;
+  // Positions of the reversed shown cards
+  reversed: string;
+  hiddenSlot: number | '';
+  hidden: string;
+  offset: number | '';
+  code: number | '';
+  revealed: boolean;
+}
+
+export interface LogSummary {
+  performances: number;
+  revealed: number;
+  // Most common first
+  offsets: [number, number][];
+  hiddenSuits: [Suit, number][];
+  strategies: [PairStrategyId, number][];
+}
+
+export type LogFormat = 'json' | 'csv';
+
+export type LogImportError =
+  | { kind: 'malformed'; format: LogFormat }
+  | { kind: 'invalid-entry'; entry: number; reason: string };
+
+// Older entries are dropped so local storage stays small
+export const MAX_LOGGED = 500;
+
+const CSV_COLUMNS: (keyof LogRecord)[] = [
+  'performedAt', 'deck', 'protocol', 'handSize', 'variant', 'strategy',
+  'hand', 'shown', 'reversed', 'hiddenSlot', 'hidden', 'offset', 'code', 'revealed',
+];
+
+// --- LOG ---
+
+// Newest first; an entry with the same timestamp as one already logged replaces it.
+export function addToLog(log: LoggedPerformance[], ...entries: LoggedPerformance[]): LoggedPerformance[] {
+  const byTime = new Map(log.map(e => [e.performedAt, e]));
+  for (const entry of entries) byTime.set(entry.performedAt, entry);
+  return [...byTime.values()].sort((a, b) => b.performedAt - a.performedAt).slice(0, MAX_LOGGED);
+}
+
+export const markRevealed = (log: LoggedPerformance[], performedAt: number) =>
+  log.map(e => (e.performedAt === performedAt ? { ...e, revealed: true } : e));
+
+const countBy = <K>(keys: K[]): [K, number][] => {
+  const counts = new Map<K, number>();
+  for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
+  return [...counts].sort((a, b) => b[1] - a[1]);
+};
+
+export function summarizeLog(log: LoggedPerformance[]): LogSummary {
+  const classic = log.flatMap(e => (e.trick.detail.protocol === 'classic' ? [e.trick.detail] : []));
+  return {
+    performances: log.length,
+    revealed: log.filter(e => e.revealed).length,
+    offsets: countBy(classic.map(d => d.offset)),
+    hiddenSuits: countBy(log.map(e => e.trick.hidden.suit)),
+    strategies: countBy(classic.flatMap(d => (d.strategy ? [d.strategy] : []))),
+  };
+}
+
+// --- RECORDS ---
+
+export function toRecord({ performedAt, deckId, protocol, hand, trick, revealed }: LoggedPerformance): LogRecord {
+  const { detail } = trick;
+  return {
+    performedAt: new Date(performedAt).toISOString(),
+    deck: deckId,
+    protocol: protocol.protocol,
+    handSize: protocol.protocol === 'general' ? protocol.handSize : '',
+    variant: protocol.protocol === 'general' ? protocol.variant ?? '' : '',
+    strategy: detail.protocol === 'classic' ? detail.strategy ?? '' : '',
+    hand: formatCards(hand, 'letters'),
+    shown: formatCards(trick.shown, 'letters'),
+    reversed: trick.reversed.flatMap((r, i) => (r ? [i] : [])).join(' '),
+    hiddenSlot: trick.hiddenSlot ?? '',
+    hidden: formatCard(trick.hidden, 'letters'),
+    offset: detail.protocol === 'classic' ? detail.offset : '',
+    code: detail.protocol === 'general' ? detail.code : '',
+    revealed,
+  };
+}
+
+const isIn = <K extends string>(value: string, options: Record<K, unknown>): value is K => Object.hasOwn(options, value);
+
+const toInteger = (value: unknown) => (value === '' || value === null || value === undefined ? undefined : Number(value));
+
+const sameCards = (a: Card[], b: Card[]) =>
+  a.length === b.length && a.map(c => c.id).sort().join() === b.map(c => c.id).sort().join();
+
+// Whether the logged arrangement is one the protocol could have made from the hand. The classic
+// codebook and the general card order are not logged: a classic entry is checked by counting
+// its offset on from the indicator, a general one by decoding it under either card order.
+function checkTrick(deck: Card[], protocol: ProtocolChoice, hand: Card[], trick: Trick): string | undefined {
+  const unsupported = checkDeckSupport(deck, protocol);
+  if (unsupported) return describeProtocolError(unsupported);
+  if (hand.length !== trickHandSize(protocol)) return `the hand has ${hand.length} cards; this protocol takes ${trickHandSize(protocol)}`;
+  if (trick.shown.length !== trickShownSize(protocol)) return `${trick.shown.length} cards are shown; this protocol shows ${trickShownSize(protocol)}`;
+  if (trick.shown.some(c => isSameCard(c, trick.hidden))) return 'the hidden card is also among the shown cards';
+  if (!sameCards([...trick.shown, trick.hidden], hand)) return 'the shown and hidden cards are not the hand';
+
+  const { detail } = trick;
+  if (protocol.protocol === 'classic') {
+    const offset = detail.protocol === 'classic' ? detail.offset : 0;
+    if (offset < 1 || offset > MAX_OFFSET) return `the offset must be 1 to ${MAX_OFFSET}, not ${offset}`;
+    const [indicator] = trick.shown;
+    const counted = makeCard(indicator.suit, addOnClock(indicator.value, offset));
+    return isSameCard(counted, trick.hidden) ? undefined : 'the offset does not lead from the indicator to the hidden card';
+  }
+  const decodes = (order: CardOrderId) => {
+    const decoded = revealTrick(trick.shown, deck, { ...protocol, order }, trick);
+    return decoded.ok
+      && isSameCard(decoded.value.hidden, trick.hidden)
+      && JSON.stringify(decoded.value.detail) === JSON.stringify(detail)
+      && decoded.value.reversed.every((r, i) => r === trick.reversed[i])
+      && decoded.value.hiddenSlot === trick.hiddenSlot;
+  };
+  return (Object.keys(CARD_ORDERS) as CardOrderId[]).some(decodes) ? undefined : 'the shown cards do not decode to the hidden card';
+}
+
+// Checks an imported or stored record, reads its cards against its deck and checks the arrangement; returns why it is unusable otherwise.
+export function fromRecord(record: Partial<Record<keyof LogRecord, unknown>>): Result<LoggedPerformance, string> {
+  const text = (key: keyof LogRecord) => (typeof record[key] === 'string' ? (record[key] as string) : '');
+
+  const performedAt = Date.parse(text('performedAt'));
+  if (Number.isNaN(performedAt)) return err('no valid performedAt time');
+  const deckId = text('deck');
+  if (!isIn(deckId, DECKS)) return err(`unknown deck "${deckId}"`);
+  const deck = buildDeck(DECKS[deckId]);
+
+  let protocol: ProtocolChoice;
+  if (text('protocol') === 'classic') {
+    protocol = { protocol: 'classic' };
+  } else if (text('protocol') === 'general') {
+    const handSize = toInteger(record.handSize);
+    const variant = text('variant');
+    // The same range as a stored setting, which is capped to what a share code holds
+    if (handSize === undefined || !Number.isInteger(handSize) || handSize < 2 || handSize > MAX_HAND_SIZE) {
+      return err(`a general performance needs a hand size of 2 to ${MAX_HAND_SIZE}`);
+    }
+    if (variant && !isIn<VariantId>(variant, VARIANTS)) return err(`unknown variant "${variant}"`);
+    protocol = variant ? { protocol: 'general', handSize, variant: variant as VariantId } : { protocol: 'general', handSize };
+  } else {
+    return err(`unknown protocol "${text('protocol')}"`);
+  }
+
+  const hand = parseCards(text('hand'), deck);
+  const shown = parseCards(text('shown'), deck);
+  const hidden = parseCard(text('hidden'), deck);
+  if (!hand.ok) return err(describeNotationError(hand.error));
+  if (!shown.ok) return err(describeNotationError(shown.error));
+  if (!hidden.ok) return err(describeNotationError(hidden.error));
+
+  const reversedAt = text('reversed').split(/\s+/).filter(Boolean).map(Number);
+  if (reversedAt.some(i => !Number.isInteger(i) || i < 0 || i >= shown.value.length)) return err('reversed positions outside the shown cards');
+  const hiddenSlot = toInteger(record.hiddenSlot);
+  if (hiddenSlot !== undefined && !(Number.isInteger(hiddenSlot) && hiddenSlot >= 0 && hiddenSlot <= shown.value.length)) {
+    return err('the face-down position is outside the row');
+  }
+
+  let detail: Trick['detail'];
+  if (protocol.protocol === 'classic') {
+    const offset = toInteger(record.offset);
+    const strategy = text('strategy');
+    if (offset === undefined || !Number.isInteger(offset)) return err('a classic performance needs its offset');
+    if (strategy && !isIn<PairStrategyId>(strategy, PAIR_STRATEGY_LABELS)) return err(`unknown pair strategy "${strategy}"`);
+    detail = strategy ? { protocol: 'classic', offset, strategy: strategy as PairStrategyId } : { protocol: 'classic', offset };
+  } else {
+    const code = toInteger(record.code);
+    if (code === undefined || !Number.isInteger(code)) return err('a general performance needs its code');
+    detail = { protocol: 'general', code };
+  }
+
+  const trick: Trick = {
+    shown: shown.value,
+    hidden: hidden.value,
+    reversed: shown.value.map((_, i) => reversedAt.includes(i)),
+    ...(hiddenSlot !== undefined && { hiddenSlot }),
+    detail,
+  };
+  const wrong = checkTrick(deck, protocol, hand.value, trick);
+  if (wrong) return err(wrong);
+  const revealed = record.revealed === true || record.revealed === 'true';
+  return ok({ performedAt, deckId, protocol, hand: hand.value, trick, revealed });
+}
+
+// --- EXPORT / IMPORT ---
+
+export function exportLog(log: LoggedPerformance[], format: LogFormat): string {
+  const records = log.map(toRecord);
+  if (format === 'json') return JSON.stringify(records, null, 2) + '\n';
+  // No field can contain a comma: cards are separated by spaces
+  return [CSV_COLUMNS, ...records.map(r => CSV_COLUMNS.map(c => r[c]))].map(row => row.join(',')).join('\n') + '\n';
+}
+
+function readRecords(text: string, format: LogFormat): unknown[] | undefined {
+  if (format === 'json') {
+    try {
+      const parsed: unknown = JSON.parse(text);
+      return Array.isArray(parsed) ? parsed : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  const [header, ...rows] = text.split(/\r?\n/).filter(line => line.trim());
+  const columns = header?.split(',').map(c => c.trim());
+  if (!columns || !CSV_COLUMNS.every(c => columns.includes(c))) return undefined;
+  return rows.map(row => {
+    const cells = row.split(',');
+    return Object.fromEntries(columns.map((c, i) => [c, cells[i]?.trim() ?? '']));
+  });
+}
+
+// The whole file is rejected if any entry is unusable, so a bad import never half-applies.
+export function importLog(text: string, format: LogFormat): Result<LoggedPerformance[], LogImportError> {
+  const records = readRecords(text, format);
+  if (!records) return err({ kind: 'malformed', format });
+  const log: LoggedPerformance[] = [];
+  for (const [i, record] of records.entries()) {
+    const entry = typeof record === 'object' && record !== null ? fromRecord(record) : err('not an object');
+    if (!entry.ok) return err({ kind: 'invalid-entry', entry: i + 1, reason: entry.error });
+    log.push(entry.value);
+  }
+  return ok(log);
+}
+
+export function describeLogImportError(error: LogImportError): string {
+  switch (error.kind) {
+    case 'malformed': return error.format === 'json'
+      ? 'This is not a JSON list of performances'
+      : `This CSV needs a header row with ${CSV_COLUMNS.join(', ')}`;
+    case 'invalid-entry': return `Entry ${error.entry}: ${error.reason}`;
+  }
+}
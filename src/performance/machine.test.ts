@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createDeck, makeCard, performTrick } from '../protocol';
+import { type PerformanceAction, type PerformanceState, canRedo, canUndo, initialPerformance, performanceReducer } from './machine';
+
+const hand = [makeCard('clubs', 2), makeCard('hearts', 9), makeCard('hearts', 3), makeCard('clubs', 5), makeCard('spades', 12)];
+const trick = (() => {
+  const result = performTrick(hand, createDeck(), { protocol: 'classic' });
+  if (!result.ok) throw new Error('expected a trick');
+  return result.value;
+})();
+
+const run = (actions: PerformanceAction[], state: PerformanceState = initialPerformance()) => actions.reduce(performanceReducer, state);
+const pick = (...cards: typeof hand): PerformanceAction[] => cards.map(card => ({ type: 'toggle-card', card, handSize: 5 }));
+
+describe('performanceReducer', () => {
+  it('undoes and redoes selections', () => {
+    const picked = run(pick(hand[0], hand[1], hand[2]));
+    expect(picked.hand).toEqual(hand.slice(0, 3));
+
+    const undone = run([{ type: 'undo' }, { type: 'undo' }], picked);
+    expect(undone.hand).toEqual(hand.slice(0, 1));
+    expect(canRedo(undone)).toBe(true);
+    expect(run([{ type: 'redo' }], undone).hand).toEqual(hand.slice(0, 2));
+
+    // A new selection drops whatever could be redone
+    const branched = run(pick(hand[4]), undone);
+    expect(branched.hand).toEqual([hand[0], hand[4]]);
+    expect(canRedo(branched)).toBe(false);
+    expect(run([{ type: 'undo' }, { type: 'undo' }, { type: 'undo' }], branched)).toMatchObject({ hand: [] });
+  });
+
+  it('ignores a card beyond the hand size and clears the performer choice on edits', () => {
+    const full = run(pick(...hand));
+    expect(run(pick(makeCard('diamonds', 7)), full)).toBe(full);
+
+    const chosen = run([{ type: 'choose-hidden', card: hand[1] }], full);
+    expect(chosen.chosenHidden).toEqual(hand[1]);
+    expect(run(pick(hand[4]), chosen).chosenHidden).toBeNull();
+    expect(run([{ type: 'undo' }], chosen).chosenHidden).toBeNull();
+  });
+
+  it('moves through stage and reveal and back again, keeping the hand', () => {
+    const staged = run([...pick(...hand), { type: 'performed', trick }]);
+    expect(staged).toMatchObject({ phase: 'stage', trick });
+    expect(canUndo(staged)).toBe(false);
+    expect(run([{ type: 'undo' }], staged)).toBe(staged);
+    expect(run(pick(hand[0]), staged)).toBe(staged);
+
+    const revealed = run([{ type: 'reveal' }], staged);
+    expect(revealed.phase).toBe('reveal');
+    expect(run([{ type: 'back' }], revealed).phase).toBe('stage');
+
+    const back = run([{ type: 'back', to: 'selection' }], revealed);
+    expect(back).toMatchObject({ phase: 'selection', hand, trick: null });
+    expect(run([{ type: 'undo' }], back).hand).toEqual(hand.slice(0, 4));
+  });
+
+  it('rejects transitions that skip a phase', () => {
+    const selecting = run(pick(hand[0]));
+    expect(run([{ type: 'reveal' }], selecting)).toBe(selecting);
+    expect(run([{ type: 'back' }], selecting)).toBe(selecting);
+    expect(run([{ type: 'back', to: 'reveal' }], run([{ type: 'performed', trick }], selecting)).phase).toBe('stage');
+  });
+
+  it('loads a whole performance and resets to an empty hand', () => {
+    const loaded = run([{ type: 'load', hand, trick, revealed: true }], run(pick(hand[0])));
+    expect(loaded).toMatchObject({ phase: 'reveal', hand, trick, past: [] });
+    expect(run([{ type: 'reset' }], loaded)).toEqual(initialPerformance());
+    expect(run([{ type: 'load', hand: [], error: 'bad link' }])).toMatchObject({ phase: 'selection', error: 'bad link' });
+  });
+});
@@ -0,0 +1,122 @@
+import type { Card, Trick } from '../protocol';
+
+// --- TYPES ---
+
+// selection: the assistant builds the hand. stage: the arrangement is on the table, hidden card
+// face down. reveal: the hidden card is shown.
+export type Phase = 'selection' | 'stage' | 'reveal';
+
+// What undo and redo step through
+export interface Selection {
+  hand: Card[];
+  // The card picked for the performer's choice strategy
+  chosenHidden: Card | null;
+}
+
+export interface PerformanceState extends Selection {
+  phase: Phase;
+  // The arrangement on the table, in the stage and reveal phases only
+  trick: Trick | null;
+  error: string | null;
+  past: Selection[];
+  future: Selection[];
+}
+
+export type PerformanceAction =
+  | { type: 'toggle-card'; card: Card; handSize: number }
+  | { type: 'set-hand'; hand: Card[] }
+  | { type: 'choose-hidden'; card: Card | null }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'performed'; trick: Trick }
+  | { type: 'failed'; error: string }
+  | { type: 'reveal' }
+  // One phase back, or straight to `to`; the hand is kept
+  | { type: 'back'; to?: Phase }
+  | { type: 'reset' }
+  // Replaces the whole performance, e.g. from a share link or after the settings change
+  | { type: 'load'; hand: Card[]; chosenHidden?: Card | null; trick?: Trick | null; revealed?: boolean; error?: string | null };
+
+export const PHASE_ORDER: Record<Phase, number> = { selection: 0, stage: 1, reveal: 2 };
+const PHASES: Phase[] = ['selection', 'stage', 'reveal'];
+
+const MAX_UNDO = 50;
+
+export const initialPerformance = (): PerformanceState => ({
+  phase: 'selection',
+  hand: [],
+  chosenHidden: null,
+  trick: null,
+  error: null,
+  past: [],
+  future: [],
+});
+
+export const canUndo = (state: PerformanceState) => state.phase === 'selection' && state.past.length > 0;
+export const canRedo = (state: PerformanceState) => state.phase === 'selection' && state.future.length > 0;
+
+// --- TRANSITIONS ---
+
+const selectionOf = ({ hand, chosenHidden }: Selection): Selection => ({ hand, chosenHidden });
+
+// A new selection during the selection phase; it can be undone and clears anything to redo
+function edit(state: PerformanceState, next: Selection): PerformanceState {
+  return {
+    ...state,
+    ...next,
+    error: null,
+    past: [...state.past, selectionOf(state)].slice(-MAX_UNDO),
+    future: [],
+  };
+}
+
+// Actions that do not fit the current phase leave the state as it is.
+export function performanceReducer(state: PerformanceState, action: PerformanceAction): PerformanceState {
+  switch (action.type) {
+    case 'toggle-card': {
+      if (state.phase !== 'selection') return state;
+      const isSelected = state.hand.some(c => c.id === action.card.id);
+      if (!isSelected && state.hand.length >= action.handSize) return state;
+      const hand = isSelected ? state.hand.filter(c => c.id !== action.card.id) : [...state.hand, action.card];
+      return edit(state, { hand, chosenHidden: null });
+    }
+    case 'set-hand':
+      return state.phase === 'selection' ? edit(state, { hand: action.hand, chosenHidden: null }) : state;
+    case 'choose-hidden':
+      return state.phase === 'selection' ? edit(state, { hand: state.hand, chosenHidden: action.card }) : state;
+    case 'undo': {
+      if (!canUndo(state)) return state;
+      const previous = state.past[state.past.length - 1];
+      return { ...state, ...previous, error: null, past: state.past.slice(0, -1), future: [selectionOf(state), ...state.future] };
+    }
+    case 'redo': {
+      if (!canRedo(state)) return state;
+      const [next, ...future] = state.future;
+      return { ...state, ...next, error: null, past: [...state.past, selectionOf(state)], future };
+    }
+    case 'performed':
+      return state.phase === 'selection' ? { ...state, phase: 'stage', trick: action.trick, error: null } : state;
+    case 'failed':
+      return state.phase === 'selection' ? { ...state, error: action.error } : state;
+    case 'reveal':
+      return state.phase === 'stage' ? { ...state, phase: 'reveal' } : state;
+    case 'back': {
+      const to = action.to ?? PHASES[Math.max(0, PHASE_ORDER[state.phase] - 1)];
+      if (PHASE_ORDER[to] >= PHASE_ORDER[state.phase]) return state;
+      return to === 'selection' ? { ...state, phase: 'selection', trick: null } : { ...state, phase: to };
+    }
+    case 'reset':
+      return initialPerformance();
+    case 'load': {
+      const trick = action.trick ?? null;
+      return {
+        ...initialPerformance(),
+        hand: action.hand,
+        chosenHidden: action.chosenHidden ?? null,
+        trick,
+        phase: !trick ? 'selection' : action.revealed ? 'reveal' : 'stage',
+        error: action.error ?? null,
+      };
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { LOCALES } from '../i18n/locales';
+import { type PresentationAction, type PresentationState, DEFAULT_PACING, describeNextCue, initialPresentation, presentationReducer } from './presentation';
+
+const run = (actions: PresentationAction[], state: PresentationState = initialPresentation()) => actions.reduce(presentationReducer, state);
+const advance = (drumRollMs = 2000): PresentationAction => ({ type: 'advance', cards: 3, drumRollMs });
+
+describe('presentationReducer', () => {
+  it('places the cards one at a time, then drum rolls and reveals', () => {
+    const placed = run([advance(), advance(), advance()]);
+    expect(placed).toEqual({ step: 'placed', placed: 3 });
+
+    const rolling = run([advance()], placed);
+    expect(rolling.step).toBe('drum-roll');
+    // Further presses during the drum roll do not skip it
+    expect(run([advance()], rolling)).toBe(rolling);
+    expect(run([{ type: 'drum-roll-done' }], rolling)).toEqual({ step: 'revealed', placed: 3 });
+  });
+
+  it('reveals straight away without a drum roll', () => {
+    expect(run([advance(0), advance(0), advance(0), advance(0)]).step).toBe('revealed');
+  });
+
+  it('only places on the timer while placing', () => {
+    const timed = run([{ type: 'place-next', cards: 3 }, { type: 'place-next', cards: 3 }, { type: 'place-next', cards: 3 }]);
+    expect(timed).toEqual({ step: 'placed', placed: 3 });
+    expect(run([{ type: 'place-next', cards: 3 }], timed)).toBe(timed);
+    expect(run([{ type: 'drum-roll-done' }], timed)).toBe(timed);
+  });
+
+  it('steps back and restarts', () => {
+    const revealed = run([advance(0), advance(0), advance(0), advance(0)]);
+    expect(run([{ type: 'back' }], revealed)).toEqual({ step: 'placed', placed: 3 });
+    expect(run([{ type: 'back' }, { type: 'back' }], revealed)).toEqual({ step: 'placing', placed: 2 });
+    expect(run([{ type: 'back' }])).toEqual(initialPresentation());
+    expect(run([{ type: 'restart' }], revealed)).toEqual(initialPresentation());
+  });
+
+  it('tells the presenter the next cue in their language', () => {
+    const pacing = { ...DEFAULT_PACING, placeOnKeypress: true };
+    expect(describeNextCue(initialPresentation(), 4, pacing, LOCALES.en.strings.presenter)).toBe('Place card 1 of 4');
+    expect(describeNextCue(run([advance()]), 3, pacing, LOCALES.de.strings.presenter)).toBe('Karte 2 von 3 legen');
+  });
+});
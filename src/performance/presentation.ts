@@ -0,0 +1,77 @@
+import type { UiStrings } from '../i18n/locales';
+
+// --- PRESENTATION ---
+// The full-screen stage as a script: the cards of the row are placed one at a time, then a
+// drum roll, then the hidden card is turned over. The presenter steps through it with a key
+// (or a clicker), or lets it run on a timer at the configured pace.
+
+export interface Pacing {
+  // Place each card on a presenter keypress instead of on a timer
+  placeOnKeypress: boolean;
+  // Between cards when placing on a timer
+  cardIntervalMs: number;
+  // Between the presenter's reveal cue and the flip; 0 turns the card straight over
+  drumRollMs: number;
+  sound: boolean;
+}
+
+export type PresentationStep = 'placing' | 'placed' | 'drum-roll' | 'revealed';
+
+export interface PresentationState {
+  step: PresentationStep;
+  // Cards of the row on the table so far
+  placed: number;
+}
+
+export type PresentationAction =
+  // The presenter's key: the next card, or the reveal once the row is down
+  | { type: 'advance'; cards: number; drumRollMs: number }
+  // The timer placing cards when pacing is not on keypress
+  | { type: 'place-next'; cards: number }
+  | { type: 'drum-roll-done' }
+  // One step back, for a presenter who pressed too early
+  | { type: 'back' }
+  | { type: 'restart' };
+
+export const DEFAULT_PACING: Pacing = { placeOnKeypress: true, cardIntervalMs: 600, drumRollMs: 2000, sound: true };
+
+export const PACING_LIMITS = {
+  cardIntervalMs: { min: 200, max: 3000, step: 100 },
+  drumRollMs: { min: 0, max: 6000, step: 500 },
+} as const;
+
+export const initialPresentation = (): PresentationState => ({ step: 'placing', placed: 0 });
+
+function place(state: PresentationState, cards: number): PresentationState {
+  const placed = Math.min(cards, state.placed + 1);
+  return { step: placed === cards ? 'placed' : 'placing', placed };
+}
+
+// Actions that do not fit the current step leave the state as it is.
+export function presentationReducer(state: PresentationState, action: PresentationAction): PresentationState {
+  switch (action.type) {
+    case 'advance':
+      if (state.step === 'placing') return place(state, action.cards);
+      if (state.step === 'placed') return { ...state, step: action.drumRollMs > 0 ? 'drum-roll' : 'revealed' };
+      return state;
+    case 'place-next':
+      return state.step === 'placing' ? place(state, action.cards) : state;
+    case 'drum-roll-done':
+      return state.step === 'drum-roll' ? { ...state, step: 'revealed' } : state;
+    case 'back':
+      if (state.step === 'revealed' || state.step === 'drum-roll') return { ...state, step: 'placed' };
+      return state.placed > 0 ? { step: 'placing', placed: state.placed - 1 } : state;
+    case 'restart':
+      return initialPresentation();
+  }
+}
+
+// What the presenter's next key does, for the presenter overlay
+export function describeNextCue(state: PresentationState, cards: number, pacing: Pacing, strings: UiStrings['presenter']): string {
+  switch (state.step) {
+    case 'placing': return pacing.placeOnKeypress ? strings.placeCard(state.placed + 1, cards) : strings.placing;
+    case 'placed': return pacing.drumRollMs > 0 ? strings.drumRollThenReveal : strings.reveal;
+    case 'drum-roll': return strings.drumRoll;
+    case 'revealed': return strings.revealed;
+  }
+}
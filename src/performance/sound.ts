@@ -0,0 +1,76 @@
+// --- SOUND CUES ---
+// Synthesised with Web Audio, so the app needs no sound files: a card slap for each placed
+// card, a snare roll that builds up before the flip, and a cymbal with a chord on the reveal.
+// The audio context is created on the first cue, which always follows a presenter action.
+
+export interface CuePlayer {
+  place: () => void;
+  drumRoll: (ms: number) => void;
+  reveal: () => void;
+  close: () => void;
+}
+
+const DRUM_STROKE_S = 0.045;
+const REVEAL_CHORD_HZ = [523.25, 659.25, 783.99];
+
+export function createCuePlayer(): CuePlayer {
+  let context: AudioContext | null = null;
+  let noise: AudioBuffer | null = null;
+
+  const audio = () => {
+    if (!context) {
+      context = new AudioContext();
+      noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+      const samples = noise.getChannelData(0);
+      for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+    }
+    return { ctx: context, buffer: noise! };
+  };
+
+  // A burst of filtered noise starting at `at` (audio time) that dies away over `decay` seconds
+  const burst = (at: number, decay: number, gain: number, filter: BiquadFilterType, frequency: number) => {
+    const { ctx, buffer } = audio();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    const band = ctx.createBiquadFilter();
+    band.type = filter;
+    band.frequency.value = frequency;
+    const envelope = ctx.createGain();
+    envelope.gain.setValueAtTime(gain, at);
+    envelope.gain.exponentialRampToValueAtTime(0.001, at + decay);
+    source.connect(band).connect(envelope).connect(ctx.destination);
+    source.start(at);
+    source.stop(at + decay);
+  };
+
+  return {
+    place: () => burst(audio().ctx.currentTime, 0.08, 0.5, 'bandpass', 1800),
+    drumRoll: ms => {
+      const start = audio().ctx.currentTime;
+      const strokes = Math.floor(ms / 1000 / DRUM_STROKE_S);
+      for (let i = 0; i < strokes; i++) {
+        burst(start + i * DRUM_STROKE_S, DRUM_STROKE_S, 0.1 + (0.4 * i) / Math.max(strokes, 1), 'highpass', 1200);
+      }
+    },
+    reveal: () => {
+      const { ctx } = audio();
+      const now = ctx.currentTime;
+      burst(now, 1.5, 0.4, 'highpass', 5000);
+      for (const frequency of REVEAL_CHORD_HZ) {
+        const tone = ctx.createOscillator();
+        tone.type = 'triangle';
+        tone.frequency.value = frequency;
+        const envelope = ctx.createGain();
+        envelope.gain.setValueAtTime(0.12, now);
+        envelope.gain.exponentialRampToValueAtTime(0.001, now + 1.8);
+        tone.connect(envelope).connect(ctx.destination);
+        tone.start(now);
+        tone.stop(now + 1.8);
+      }
+    },
+    close: () => {
+      void context?.close();
+      context = null;
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { type TrickConfig, DECKS, buildDeck, makeCard, performTrick } from '../protocol';
+import { LOCALES } from '../i18n/locales';
+import { revealSpeech, sequenceSpeech } from './speech';
+
+const hand = [makeCard('clubs', 2), makeCard('hearts', 9), makeCard('hearts', 3), makeCard('clubs', 5), makeCard('spades', 12)];
+const perform = (config: TrickConfig) => {
+  const result = performTrick(hand, buildDeck(DECKS.standard), config);
+  if (!result.ok) throw new Error('expected a trick');
+  return result.value;
+};
+
+describe('spoken mode', () => {
+  it('reads the sequence and then the hidden card', () => {
+    const trick = perform({ protocol: 'classic' });
+    const sequence = sequenceSpeech(trick, LOCALES.de);
+    expect(sequence.startsWith('Die Reihe: ')).toBe(true);
+    expect(sequence.split(', ')).toHaveLength(4);
+    expect(revealSpeech(trick, LOCALES.fr)).toMatch(/^Votre carte est (le |la |l').+ de (trèfle|cœur|pique|carreau) !$/);
+  });
+
+  it('mentions reversed and face-down cards', () => {
+    const trick = perform({ protocol: 'general', handSize: 5, variant: 'reversals-face-down', order: 'value-first' });
+    const spoken = sequenceSpeech(trick, LOCALES.en);
+    expect(spoken).toContain('Face-down card');
+    expect(spoken.split(', reversed')).toHaveLength(trick.reversed.filter(Boolean).length + 1);
+  });
+});
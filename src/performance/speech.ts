@@ -0,0 +1,31 @@
+import { type Trick, tableLayout } from '../protocol';
+import { type Locale, cardName, definiteCardName } from '../i18n/locales';
+
+// --- SPOKEN MODE ---
+// Reads the sequence aloud once it is laid out, then the hidden card on the reveal, in the
+// performer's language through the browser's speech synthesis. Browsers without it stay silent.
+
+export function sequenceSpeech(trick: Trick, locale: Locale): string {
+  const { strings } = locale;
+  const cards = tableLayout(trick).map(placement =>
+    placement.faceDown ? strings.faceDownCard
+    : cardName(placement.card, locale) + (placement.reversed ? `, ${strings.reversed}` : ''));
+  return strings.spokenSequence(cards.join(', '));
+}
+
+export const revealSpeech = (trick: Trick, locale: Locale) => locale.strings.spokenReveal(definiteCardName(trick.hidden, locale));
+
+// Cuts off whatever is still being read, so the reveal never waits behind the sequence
+export function speak(text: string, locale: Locale) {
+  if (typeof speechSynthesis === 'undefined') return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = locale.speechLang;
+  const voice = speechSynthesis.getVoices().find(v => v.lang.toLowerCase().startsWith(locale.id));
+  if (voice) utterance.voice = voice;
+  speechSynthesis.cancel();
+  speechSynthesis.speak(utterance);
+}
+
+export function stopSpeaking() {
+  if (typeof speechSynthesis !== 'undefined') speechSynthesis.cancel();
+}
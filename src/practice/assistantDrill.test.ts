@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { type Suit, makeCard } from '../protocol';
+import { checkArrangement, describeAssistantMistake, listValidArrangements } from './assistantDrill';
+
+const card = (value: number, suit: Suit) => makeCard(suit, value);
+
+describe('listValidArrangements', () => {
+  it('offers one arrangement per same-suit pair', () => {
+    const hand = [card(2, 'clubs'), card(9, 'hearts'), card(3, 'hearts'), card(5, 'clubs'), card(12, 'spades')];
+    const valid = listValidArrangements(hand);
+    expect(valid.map(a => [a.indicator.id, a.hidden.id, a.offset])).toEqual([
+      ['clubs-2', 'clubs-5', 3],
+      ['hearts-3', 'hearts-9', 6],
+    ]);
+  });
+});
+
+describe('checkArrangement', () => {
+  it('accepts any valid pair', () => {
+    const result = checkArrangement([card(2, 'clubs'), card(9, 'hearts'), card(3, 'hearts'), card(12, 'spades')], card(5, 'clubs'));
+    expect(result.ok && result.value.offset).toBe(3);
+  });
+
+  it('rejects a pair of different suits', () => {
+    const result = checkArrangement([card(2, 'clubs'), card(5, 'clubs'), card(3, 'hearts'), card(12, 'spades')], card(9, 'hearts'));
+    expect(result.ok || result.error.kind).toBe('not-a-pair');
+  });
+
+  it('rejects a pair counted the long way round the clock', () => {
+    const result = checkArrangement([card(5, 'clubs'), card(9, 'hearts'), card(3, 'hearts'), card(12, 'spades')], card(2, 'clubs'));
+    if (result.ok) throw new Error('expected a mistake');
+    expect(result.error).toMatchObject({ kind: 'distance-too-far', distance: 10 });
+    expect(describeAssistantMistake(result.error)).toContain('it is only 3');
+  });
+
+  it('spots code cards sorted by suit instead of by value', () => {
+    // Value first: 3♠ < 4♦ < 9♥. Suit first: 4♦ < 9♥ < 3♠, so 9♥ 4♦ 3♠ is MSL only when sorted by suit.
+    const result = checkArrangement([card(2, 'clubs'), card(9, 'hearts'), card(4, 'diamonds'), card(3, 'spades')], card(5, 'clubs'));
+    expect(result.ok || result.error).toEqual({ kind: 'mis-sorted', offset: 3, order: 'suit-first', expected: [1, 0, 2] });
+  });
+
+  it('says which offset a wrong ordering would signal', () => {
+    const result = checkArrangement([card(2, 'clubs'), card(3, 'hearts'), card(9, 'hearts'), card(12, 'spades')], card(5, 'clubs'));
+    if (result.ok) throw new Error('expected a mistake');
+    expect(result.error).toEqual({ kind: 'wrong-permutation', offset: 3, expected: [1, 0, 2], received: [0, 1, 2], means: 1 });
+    expect(describeAssistantMistake(result.error)).toBe('+3 is MSL; SML would tell the magician +1 instead');
+  });
+});
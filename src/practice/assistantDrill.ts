@@ -0,0 +1,91 @@
+import {
+  type Arrangement,
+  type Card,
+  type CardOrderId,
+  type Codebook,
+  type Permutation,
+  type Result,
+  CARD_ORDERS,
+  CLASSIC_CODEBOOK,
+  MAX_OFFSET,
+  clockDistance,
+  describeCard,
+  encode,
+  err,
+  formatPermutation,
+  listCandidatePairs,
+  ok,
+  samePermutation,
+  sortByOrder,
+} from '../protocol';
+
+// --- ASSISTANT DRILL ---
+// The user is dealt five cards and lays out the indicator and code cards themselves. Any
+// same-suit pair is fine since the magician never needs to know which one was chosen, so the
+// answer is checked against the protocol's rules rather than a single expected arrangement.
+
+export type AssistantMistake =
+  | { kind: 'not-a-pair'; indicator: Card; hidden: Card }
+  | { kind: 'distance-too-far'; indicator: Card; hidden: Card; distance: number }
+  | { kind: 'mis-sorted'; offset: number; order: CardOrderId; expected: Permutation }
+  | { kind: 'wrong-permutation'; offset: number; expected: Permutation; received: Permutation; means: number };
+
+export function describeAssistantMistake(mistake: AssistantMistake, codebook: Codebook = CLASSIC_CODEBOOK): string {
+  switch (mistake.kind) {
+    case 'not-a-pair':
+      return `The indicator (${describeCard(mistake.indicator)}) and the hidden card (${describeCard(mistake.hidden)}) must share a suit`;
+    case 'distance-too-far':
+      return `Counting from the ${describeCard(mistake.indicator)} to the ${describeCard(mistake.hidden)} takes ${mistake.distance} steps. `
+        + `Swap them: from the ${describeCard(mistake.hidden)} it is only ${clockDistance(mistake.hidden.value, mistake.indicator.value)}`;
+    case 'mis-sorted':
+      return `+${mistake.offset} is ${formatPermutation(mistake.expected)}, but Small, Medium and Large were sorted `
+        + `${CARD_ORDERS[mistake.order].label.toLowerCase()}. ${CARD_ORDERS[codebook.order].description}`;
+    case 'wrong-permutation':
+      return `+${mistake.offset} is ${formatPermutation(mistake.expected)}; `
+        + `${formatPermutation(mistake.received)} would tell the magician +${mistake.means} instead`;
+  }
+}
+
+// Every arrangement the protocol allows for this hand: one per same-suit pair.
+export function listValidArrangements(hand: Card[], codebook: Codebook = CLASSIC_CODEBOOK): Arrangement[] {
+  return listCandidatePairs(hand).flatMap(pair => {
+    const result = encode(hand, { codebook, pairStrategy: { id: 'performer-choice', selectPair: () => pair } });
+    return result.ok ? [result.value] : [];
+  });
+}
+
+// `sequence` is the indicator followed by the three code cards, in the order the user laid them out.
+export function checkArrangement(
+  sequence: Card[],
+  hidden: Card,
+  codebook: Codebook = CLASSIC_CODEBOOK,
+): Result<Arrangement, AssistantMistake> {
+  const [indicator, ...codeCards] = sequence;
+
+  // 1. The indicator and the hidden card are a same-suit pair
+  if (indicator.suit !== hidden.suit) return err({ kind: 'not-a-pair', indicator, hidden });
+
+  // 2. Counting clockwise from the indicator reaches the hidden card within 6 steps
+  const offset = clockDistance(indicator.value, hidden.value);
+  if (offset > MAX_OFFSET) return err({ kind: 'distance-too-far', indicator, hidden, distance: offset });
+
+  // 3. The code cards spell out the offset's Small/Medium/Large ordering
+  const expected = codebook.table[offset - 1];
+  const patternUnder = (order: CardOrderId): Permutation => {
+    const sorted = sortByOrder(codeCards, order);
+    const [a, b, c] = codeCards.map(card => sorted.indexOf(card));
+    return [a, b, c];
+  };
+  const received = patternUnder(codebook.order);
+  if (samePermutation(received, expected)) {
+    return ok({ indicator, hidden, codeCards, offset, strategy: 'performer-choice' });
+  }
+
+  // Right ordering, but of cards ranked some other way
+  const misSortedBy = (Object.keys(CARD_ORDERS) as CardOrderId[])
+    .find(order => order !== codebook.order && samePermutation(patternUnder(order), expected));
+  if (misSortedBy) return err({ kind: 'mis-sorted', offset, order: misSortedBy, expected });
+
+  const means = codebook.table.findIndex(p => samePermutation(p, received)) + 1;
+  return err({ kind: 'wrong-permutation', offset, expected, received, means });
+}
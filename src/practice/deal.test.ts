@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createDeck } from '../protocol';
+import { cardsLeft, dealFromDeck, formatSeed, nextSeed, parseSeed, shuffleDeck } from './deal';
+
+const deck = createDeck();
+
+describe('seeded dealing', () => {
+  it('shuffles the same way for the same seed', () => {
+    const shuffled = shuffleDeck(deck, 1234);
+    expect(shuffleDeck(deck, 1234)).toEqual(shuffled);
+    expect(shuffleDeck(deck, 1235)).not.toEqual(shuffled);
+    expect([...shuffled].sort((a, b) => a.id.localeCompare(b.id))).toEqual([...deck].sort((a, b) => a.id.localeCompare(b.id)));
+  });
+
+  it('keeps dealt cards out of the deck across rounds', () => {
+    const first = dealFromDeck(deck, { seed: 42, dealt: 0 }, 5);
+    const second = dealFromDeck(deck, first.state, 5);
+    expect(second.state).toEqual({ seed: 42, dealt: 10 });
+    expect(cardsLeft(deck, second.state)).toBe(42);
+    expect(second.hand.some(c => first.hand.includes(c))).toBe(false);
+    expect([...first.hand, ...second.hand]).toEqual(shuffleDeck(deck, 42).slice(0, 10));
+  });
+
+  it('reshuffles from a seed derived from the old one when too few cards are left', () => {
+    const low = dealFromDeck(deck, { seed: 42, dealt: 50 }, 5);
+    expect(low.state).toEqual({ seed: nextSeed(42), dealt: 5 });
+    expect(low.hand).toEqual(shuffleDeck(deck, nextSeed(42)).slice(0, 5));
+  });
+
+  it('shows seeds as hex and reads them back', () => {
+    expect(formatSeed(0xdeadbeef)).toBe('DEADBEEF');
+    expect(formatSeed(255)).toBe('000000FF');
+    expect(parseSeed(' deadbeef ')).toBe(0xdeadbeef);
+    expect(parseSeed('0x1F')).toBe(31);
+    expect(parseSeed('seed')).toBeUndefined();
+    expect(parseSeed('123456789')).toBeUndefined();
+  });
+});
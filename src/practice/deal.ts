@@ -0,0 +1,81 @@
+import type { Card } from '../protocol';
+
+// --- RANDOM DEALING ---
+// `random` returns numbers in [0, 1) like Math.random; tests pass a seeded generator.
+
+export type Random = () => number;
+
+export function dealHand(deck: Card[], size: number, random: Random = Math.random): Card[] {
+  const remaining = [...deck];
+  const hand: Card[] = [];
+  while (hand.length < size && remaining.length > 0) {
+    hand.push(remaining.splice(Math.floor(random() * remaining.length), 1)[0]);
+  }
+  return hand;
+}
+
+// Picks one of `items` with probability proportional to its weight.
+export function weightedPick<T>(items: T[], weight: (item: T) => number, random: Random = Math.random): T {
+  const weights = items.map(weight);
+  let target = random() * weights.reduce((a, b) => a + b, 0);
+  for (let i = 0; i < items.length; i++) {
+    target -= weights[i];
+    if (target < 0) return items[i];
+  }
+  return items[items.length - 1];
+}
+
+// --- SEEDED DEALING ---
+// "Shuffle and deal" for repeat shows: the deck is shuffled from a 32-bit seed and hands are dealt
+// off the top, so dealt cards stay out of the deck across rounds. A seed and a count of dealt
+// cards pin the deck down exactly, which is all that needs to be stored or shown to reproduce a run.
+
+export interface DealState {
+  seed: number;
+  // Cards dealt so far from the shuffle of `seed`
+  dealt: number;
+}
+
+// mulberry32: small, fast, and the same on every platform
+export function seededRandom(seed: number): Random {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const createSeed = (random: Random = Math.random) => Math.floor(random() * 2 ** 32);
+
+// Seeds are shown as eight hex digits
+export const formatSeed = (seed: number) => (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+
+export function parseSeed(text: string): number | undefined {
+  const hex = text.trim().replace(/^0x/i, '');
+  return /^[0-9a-f]{1,8}$/i.test(hex) ? parseInt(hex, 16) : undefined;
+}
+
+// Fisher-Yates with the seeded generator
+export function shuffleDeck(deck: Card[], seed: number): Card[] {
+  const random = seededRandom(seed);
+  const shuffled = [...deck];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export const cardsLeft = (deck: Card[], state: DealState) => Math.max(0, deck.length - state.dealt);
+
+// A fresh shuffle when the deck runs low takes its seed from the old one, so a whole run
+// follows from the first seed.
+export const nextSeed = (seed: number) => createSeed(seededRandom(seed ^ 0x9e3779b9));
+
+export function dealFromDeck(deck: Card[], state: DealState, size: number): { hand: Card[]; state: DealState } {
+  const current = cardsLeft(deck, state) < size ? { seed: nextSeed(state.seed), dealt: 0 } : state;
+  const hand = shuffleDeck(deck, current.seed).slice(current.dealt, current.dealt + size);
+  return { hand, state: { seed: current.seed, dealt: current.dealt + hand.length } };
+}
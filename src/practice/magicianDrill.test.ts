@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { decodeSequence } from '../protocol';
+import { dealDrillRound, emptyDrillStats, recordResult, weakness } from './magicianDrill';
+
+// Small deterministic PRNG so failures are reproducible
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe('recordResult', () => {
+  it('tallies by offset, suit and session', () => {
+    let stats = emptyDrillStats();
+    stats = recordResult(stats, { offset: 3, suit: 'hearts', correct: true, ms: 4000 }, 100);
+    stats = recordResult(stats, { offset: 3, suit: 'clubs', correct: false, ms: 9000 }, 100);
+    stats = recordResult(stats, { offset: 5, suit: 'hearts', correct: true, ms: 2000 }, 200);
+
+    expect(stats.byOffset[2]).toEqual({ attempts: 2, correct: 1, totalMs: 13000 });
+    expect(stats.byOffset[4]).toEqual({ attempts: 1, correct: 1, totalMs: 2000 });
+    expect(stats.bySuit.hearts).toEqual({ attempts: 2, correct: 2, totalMs: 6000 });
+    expect(stats.sessions).toEqual([
+      { startedAt: 100, attempts: 2, correct: 1, totalMs: 13000 },
+      { startedAt: 200, attempts: 1, correct: 1, totalMs: 2000 },
+    ]);
+  });
+});
+
+describe('weakness', () => {
+  it('ranks missed and slow cases above fast correct ones', () => {
+    const fast = { attempts: 4, correct: 4, totalMs: 8000 };
+    const slow = { attempts: 4, correct: 4, totalMs: 60000 };
+    const missed = { attempts: 4, correct: 1, totalMs: 8000 };
+    expect(weakness(slow)).toBeGreaterThan(weakness(fast));
+    expect(weakness(missed)).toBeGreaterThan(weakness(slow));
+    expect(weakness()).toBeGreaterThan(weakness(fast));
+  });
+});
+
+describe('dealDrillRound', () => {
+  it('deals rounds the magician can decode', () => {
+    const random = mulberry32(8);
+    for (let i = 0; i < 50; i++) {
+      const round = dealDrillRound(emptyDrillStats(), undefined, random);
+      const decoded = decodeSequence(round.shown);
+      expect(decoded.ok && decoded.value).toEqual({ hidden: round.hidden, offset: round.offset });
+      expect(round.shown[0].suit).toBe(round.suit);
+    }
+  });
+
+  it('deals weak offsets more often', () => {
+    // Offset 4 has been missed every time; the others were answered quickly
+    const stats = emptyDrillStats();
+    stats.byOffset = stats.byOffset.map((_, i) =>
+      i === 3 ? { attempts: 10, correct: 0, totalMs: 200000 } : { attempts: 10, correct: 10, totalMs: 20000 });
+    const random = mulberry32(4);
+    const offsets = Array.from({ length: 200 }, () => dealDrillRound(stats, undefined, random).offset);
+    const fours = offsets.filter(o => o === 4).length;
+    expect(fours).toBeGreaterThan(offsets.length / 3);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  type Card,
+  type Codebook,
+  type Suit,
+  CLASSIC_CODEBOOK,
+  HAND_SIZE,
+  MAX_OFFSET,
+  SUITS,
+  createDeck,
+  describeProtocolError,
+  encode,
+} from '../protocol';
+import { type Random, dealHand, weightedPick } from './deal';
+
+// --- MAGICIAN DRILL ---
+// The app deals a hand, arranges it with the classic protocol and shows only the indicator
+// and code cards; the user names the hidden card against the clock. Results are tallied per
+// offset and per suit of the pair so that weak cases can be dealt more often.
+
+// --- TYPES ---
+
+export interface Tally {
+  attempts: number;
+  correct: number;
+  totalMs: number;
+}
+
+export interface SessionTally extends Tally {
+  startedAt: number;
+}
+
+export interface DrillStats {
+  // Stored at index offset - 1
+  byOffset: Tally[];
+  bySuit: Partial<Record<Suit, Tally>>;
+  sessions: SessionTally[];
+}
+
+export interface DrillRound {
+  shown: Card[];
+  hidden: Card;
+  offset: number;
+  suit: Suit;
+}
+
+export interface DrillResult {
+  offset: number;
+  suit: Suit;
+  correct: boolean;
+  ms: number;
+}
+
+// --- CONSTANTS ---
+
+export const TIME_LIMIT_MS = 20_000;
+// Older sessions are dropped so the chart and the stored data stay small
+export const MAX_SESSIONS = 30;
+// Redeals allowed while looking for a hand with the wanted offset and suit
+const MAX_REDEALS = 500;
+
+const EMPTY_TALLY: Tally = { attempts: 0, correct: 0, totalMs: 0 };
+const OFFSETS = Array.from({ length: MAX_OFFSET }, (_, i) => i + 1);
+
+export const emptyDrillStats = (): DrillStats => ({ byOffset: OFFSETS.map(() => EMPTY_TALLY), bySuit: {}, sessions: [] });
+
+// --- STATS ---
+
+export const accuracy = (t: Tally) => (t.attempts === 0 ? 0 : t.correct / t.attempts);
+export const averageMs = (t: Tally) => (t.attempts === 0 ? 0 : t.totalMs / t.attempts);
+
+const addResult = (t: Tally, result: DrillResult): Tally => ({
+  attempts: t.attempts + 1,
+  correct: t.correct + (result.correct ? 1 : 0),
+  totalMs: t.totalMs + result.ms,
+});
+
+// Results from the same session (identified by its start time) are added to the same entry.
+export function recordResult(stats: DrillStats, result: DrillResult, sessionStart: number): DrillStats {
+  const last = stats.sessions[stats.sessions.length - 1];
+  const sessions = last?.startedAt === sessionStart
+    ? [...stats.sessions.slice(0, -1), { ...addResult(last, result), startedAt: sessionStart }]
+    : [...stats.sessions, { ...addResult(EMPTY_TALLY, result), startedAt: sessionStart }].slice(-MAX_SESSIONS);
+
+  return {
+    byOffset: stats.byOffset.map((t, i) => (i === result.offset - 1 ? addResult(t, result) : t)),
+    bySuit: { ...stats.bySuit, [result.suit]: addResult(stats.bySuit[result.suit] ?? EMPTY_TALLY, result) },
+    sessions,
+  };
+}
+
+// How much more often a case should be dealt. Untried cases count as weak; misses weigh most
+// and slow answers add a little.
+export function weakness(t: Tally = EMPTY_TALLY): number {
+  if (t.attempts === 0) return 3;
+  return 1 + 4 * (1 - accuracy(t)) + 2 * Math.min(averageMs(t) / TIME_LIMIT_MS, 1);
+}
+
+// --- DEALING ---
+
+function arrangeRandomHand(deck: Card[], codebook: Codebook, random: Random): DrillRound {
+  const result = encode(dealHand(deck, HAND_SIZE, random), { codebook });
+  // Five cards from the standard deck always contain a same-suit pair
+  if (!result.ok) throw new Error(describeProtocolError(result.error));
+  const { indicator, codeCards, hidden, offset } = result.value;
+  return { shown: [indicator, ...codeCards], hidden, offset, suit: indicator.suit };
+}
+
+// Picks an offset and a suit weighted by weakness, then redeals until the arrangement uses both.
+export function dealDrillRound(stats: DrillStats, codebook: Codebook = CLASSIC_CODEBOOK, random: Random = Math.random): DrillRound {
+  const deck = createDeck();
+  const offset = weightedPick(OFFSETS, o => weakness(stats.byOffset[o - 1]), random);
+  const suit = weightedPick(SUITS, s => weakness(stats.bySuit[s]), random);
+
+  let round = arrangeRandomHand(deck, codebook, random);
+  for (let i = 1; i < MAX_REDEALS && (round.offset !== offset || round.suit !== suit); i++) {
+    round = arrangeRandomHand(deck, codebook, random);
+  }
+  return round;
+}
@@ -0,0 +1,80 @@
+// --- TYPES ---
+export type Suit = 'clubs' | 'diamonds' | 'hearts' | 'spades' | 'stars' | 'jokers';
+export type CardValue = number;
+
+export interface Card {
+  id: string;
+  suit: Suit;
+  value: CardValue;
+  displayValue: string;
+}
+
+export type SuitSymbol = 'club' | 'diamond' | 'heart' | 'spade' | 'star' | 'joker';
+export type SuitColor = 'black' | 'red' | 'blue' | 'purple';
+
+export interface SuitDefinition {
+  id: Suit;
+  name: string;
+  singular: string;
+  symbol: SuitSymbol;
+  color: SuitColor;
+  // Tie-breaker position when two cards share a value (lowest first)
+  order: number;
+}
+
+// --- CONSTANTS ---
+
+// Every suit any deck can use. Decks pick from this list (see decks.ts).
+export const SUIT_DEFINITIONS: Record<Suit, SuitDefinition> = {
+  clubs: { id: 'clubs', name: 'clubs', singular: 'club', symbol: 'club', color: 'black', order: 0 },
+  diamonds: { id: 'diamonds', name: 'diamonds', singular: 'diamond', symbol: 'diamond', color: 'red', order: 1 },
+  hearts: { id: 'hearts', name: 'hearts', singular: 'heart', symbol: 'heart', color: 'red', order: 2 },
+  spades: { id: 'spades', name: 'spades', singular: 'spade', symbol: 'spade', color: 'black', order: 3 },
+  // The fifth suit of 1930s five-suit bridge decks
+  stars: { id: 'stars', name: 'stars', singular: 'star', symbol: 'star', color: 'blue', order: 4 },
+  jokers: { id: 'jokers', name: 'jokers', singular: 'joker', symbol: 'joker', color: 'purple', order: 5 },
+};
+
+// The four standard suits in display order
+export const SUITS: Suit[] = ['spades', 'hearts', 'clubs', 'diamonds'];
+
+// Tie-breaker order: Clubs < Diamonds < Hearts < Spades (< Stars < Jokers)
+export const SUIT_ORDER = Object.fromEntries(
+  Object.values(SUIT_DEFINITIONS).map(s => [s.id, s.order]),
+) as Record<Suit, number>;
+
+const SUIT_COUNT = Object.keys(SUIT_DEFINITIONS).length;
+
+// --- HELPERS ---
+
+export function getDisplayValue(value: CardValue): string {
+  if (value === 1) return 'A';
+  if (value === 11) return 'J';
+  if (value === 12) return 'Q';
+  if (value === 13) return 'K';
+  return `${value}`;
+}
+
+export function makeCard(suit: Suit, value: CardValue, displayValue = getDisplayValue(value)): Card {
+  return { id: `${suit}-${value}`, suit, value, displayValue };
+}
+
+// The standard 52-card deck; other decks are built from definitions in decks.ts.
+export function createDeck(): Card[] {
+  const deck: Card[] = [];
+  SUITS.forEach(suit => {
+    for (let v = 1; v <= 13; v++) {
+      deck.push(makeCard(suit, v));
+    }
+  });
+  return deck;
+}
+
+export const describeCard = (c: Card) =>
+  c.suit === 'jokers' ? `${c.displayValue} joker` : `${c.displayValue} of ${c.suit}`;
+
+// Strict comparison value for sorting: Value primary, Suit secondary (for tie-breaking).
+// (Value-1) * suit count + SuitOrder gives every card a unique rank; for the standard deck this is 0 to 51 spread out.
+export const getCardRank = (c: Card) => (c.value - 1) * SUIT_COUNT + SUIT_ORDER[c.suit];
+
+export const isSameCard = (a: Card, b: Card) => a.suit === b.suit && a.value === b.value;
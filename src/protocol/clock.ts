@@ -0,0 +1,13 @@
+import type { CardValue } from './cards';
+
+// Clock size: values wrap from King (13) back to Ace (1).
+export const CLOCK = 13;
+// With 13 values, one of the two directions between a pair is always at most 6.
+export const MAX_OFFSET = 6;
+
+// Clockwise distance from a to b on the 13-hour clock (0-12).
+export const clockDistance = (from: CardValue, to: CardValue) => (to - from + CLOCK) % CLOCK;
+
+// Counts `offset` hours clockwise from `value`, wrapping King back to Ace.
+export const addOnClock = (value: CardValue, offset: number) =>
+  (value + offset - 1) % CLOCK + 1;
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { type CardValue, type Suit, makeCard } from './cards';
+import { type Codebook, ALL_PERMUTATIONS, OFFSET_TABLE_PRESETS, sortByOrder, validateOffsetTable } from './codebook';
+import { decode, encode } from './fitchCheney';
+
+const card = (value: number, suit: Suit) => makeCard(suit, value as CardValue);
+
+describe('validateOffsetTable', () => {
+  it('accepts every preset', () => {
+    Object.values(OFFSET_TABLE_PRESETS).forEach(preset => {
+      expect(validateOffsetTable(preset.table).ok).toBe(true);
+    });
+  });
+
+  it('rejects tables of the wrong size', () => {
+    expect(validateOffsetTable(ALL_PERMUTATIONS.slice(0, 5))).toEqual({
+      ok: false,
+      error: { kind: 'wrong-table-size', expected: 6, received: 5 },
+    });
+  });
+
+  it('rejects entries that are not orderings of three cards', () => {
+    const table = [...ALL_PERMUTATIONS.slice(0, 3), [0, 0, 1], ...ALL_PERMUTATIONS.slice(4)];
+    expect(validateOffsetTable(table)).toEqual({ ok: false, error: { kind: 'not-a-permutation', offset: 4 } });
+  });
+
+  it('rejects tables that use an ordering twice', () => {
+    const table = [...ALL_PERMUTATIONS.slice(0, 5), ALL_PERMUTATIONS[1]];
+    expect(validateOffsetTable(table)).toEqual({ ok: false, error: { kind: 'duplicate-permutation', offsets: [2, 6] } });
+  });
+});
+
+describe('sortByOrder', () => {
+  const cards = [card(10, 'clubs'), card(2, 'spades'), card(10, 'diamonds')];
+
+  it('ranks by value first by default', () => {
+    expect(sortByOrder(cards, 'value-first')).toEqual([card(2, 'spades'), card(10, 'clubs'), card(10, 'diamonds')]);
+  });
+
+  it('can rank by suit first', () => {
+    expect(sortByOrder(cards, 'suit-first')).toEqual([card(10, 'clubs'), card(10, 'diamonds'), card(2, 'spades')]);
+  });
+});
+
+describe('custom codebooks', () => {
+  const codebook: Codebook = { table: OFFSET_TABLE_PRESETS['smallest-position'].table, order: 'suit-first' };
+
+  it('lays out the code cards with the custom table and order', () => {
+    // 4 -> 8 of hearts is offset 4, which is L S M in the smallest-position table
+    const hand = [card(4, 'hearts'), card(8, 'hearts'), card(10, 'clubs'), card(2, 'spades'), card(10, 'diamonds')];
+    const result = encode(hand, { codebook });
+    if (!result.ok) throw new Error('expected a valid arrangement');
+    expect(result.value.offset).toBe(4);
+    expect(result.value.codeCards).toEqual([card(2, 'spades'), card(10, 'clubs'), card(10, 'diamonds')]);
+  });
+
+  it('round-trips through decode with the same codebook only', () => {
+    const hand = [card(4, 'hearts'), card(8, 'hearts'), card(10, 'clubs'), card(2, 'spades'), card(10, 'diamonds')];
+    const encoded = encode(hand, { codebook });
+    if (!encoded.ok) throw new Error('expected a valid arrangement');
+
+    const decoded = decode(encoded.value.indicator, encoded.value.codeCards, { codebook });
+    expect(decoded.ok && decoded.value.hidden).toEqual(card(8, 'hearts'));
+
+    const classic = decode(encoded.value.indicator, encoded.value.codeCards);
+    expect(classic.ok && classic.value.hidden).not.toEqual(card(8, 'hearts'));
+  });
+});
@@ -0,0 +1,104 @@
+import { type Card, SUIT_ORDER, getCardRank } from './cards';
+import { type Result, ok, err } from './result';
+
+// --- TYPES ---
+
+// An ordering of the Small/Medium/Large code cards, by index into the sorted triple.
+export type Permutation = readonly [number, number, number];
+
+// Offset (1-6) -> permutation, stored at index offset - 1.
+export type OffsetTable = readonly Permutation[];
+
+export type CardOrderId = 'value-first' | 'suit-first';
+
+export interface CardOrder {
+  id: CardOrderId;
+  label: string;
+  description: string;
+  rank: (card: Card) => number;
+}
+
+// Everything the assistant and the magician must agree on before the show.
+export interface Codebook {
+  table: OffsetTable;
+  order: CardOrderId;
+}
+
+export type CodebookError =
+  | { kind: 'wrong-table-size'; expected: number; received: number }
+  | { kind: 'not-a-permutation'; offset: number }
+  | { kind: 'duplicate-permutation'; offsets: [number, number] };
+
+// --- CONSTANTS ---
+
+// All 3! orderings in lexicographic order
+export const ALL_PERMUTATIONS: readonly Permutation[] = [
+  [0, 1, 2],
+  [0, 2, 1],
+  [1, 0, 2],
+  [1, 2, 0],
+  [2, 0, 1],
+  [2, 1, 0],
+];
+
+const SIZE_LABELS = ['S', 'M', 'L'];
+
+export const CARD_ORDERS: Record<CardOrderId, CardOrder> = {
+  'value-first': {
+    id: 'value-first',
+    label: 'Value first',
+    description: 'Ranked by value, ties broken clubs < diamonds < hearts < spades',
+    rank: getCardRank,
+  },
+  'suit-first': {
+    id: 'suit-first',
+    label: 'Suit first',
+    description: 'Ranked by suit (clubs < diamonds < hearts < spades), then by value',
+    rank: c => SUIT_ORDER[c.suit] * 13 + (c.value - 1),
+  },
+};
+
+export const OFFSET_TABLE_PRESETS: Record<'classic' | 'smallest-position', { label: string; table: OffsetTable }> = {
+  // 1 = SML, 2 = SLM, 3 = MSL, 4 = MLS, 5 = LSM, 6 = LMS
+  'classic': { label: 'Classic (lexicographic)', table: ALL_PERMUTATIONS },
+  // Where the Small card sits gives the pair of offsets (1-2, 3-4, 5-6); M before L adds nothing, L before M adds one.
+  // 1 = SML, 2 = SLM, 3 = MSL, 4 = LSM, 5 = MLS, 6 = LMS
+  'smallest-position': {
+    label: 'Position of the smallest',
+    table: [[0, 1, 2], [0, 2, 1], [1, 0, 2], [2, 0, 1], [1, 2, 0], [2, 1, 0]],
+  },
+};
+
+export const CLASSIC_CODEBOOK: Codebook = { table: ALL_PERMUTATIONS, order: 'value-first' };
+
+// --- HELPERS ---
+
+export const formatPermutation = (p: Permutation) => p.map(i => SIZE_LABELS[i]).join('');
+
+export const samePermutation = (a: readonly number[], b: readonly number[]) => a.every((v, i) => v === b[i]);
+
+export const sortByOrder = (cards: Card[], order: CardOrderId) =>
+  [...cards].sort((a, b) => CARD_ORDERS[order].rank(a) - CARD_ORDERS[order].rank(b));
+
+// A table is usable only if it is a bijection between the offsets 1-6 and the 3! orderings.
+export function validateOffsetTable(table: readonly (readonly number[])[]): Result<OffsetTable, CodebookError> {
+  if (table.length !== ALL_PERMUTATIONS.length) {
+    return err({ kind: 'wrong-table-size', expected: ALL_PERMUTATIONS.length, received: table.length });
+  }
+  for (let i = 0; i < table.length; i++) {
+    const isPermutation = Array.isArray(table[i]) && table[i].length === 3 && [0, 1, 2].every(v => table[i].includes(v));
+    if (!isPermutation) return err({ kind: 'not-a-permutation', offset: i + 1 });
+
+    const first = table.findIndex(p => samePermutation(p, table[i]));
+    if (first !== i) return err({ kind: 'duplicate-permutation', offsets: [first + 1, i + 1] });
+  }
+  return ok(table as OffsetTable);
+}
+
+export function describeCodebookError(error: CodebookError): string {
+  switch (error.kind) {
+    case 'wrong-table-size': return `The table needs ${error.expected} entries, it has ${error.received}`;
+    case 'not-a-permutation': return `Offset ${error.offset} is not an ordering of Small, Medium and Large`;
+    case 'duplicate-permutation': return `Offsets ${error.offsets[0]} and ${error.offsets[1]} use the same ordering`;
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { binomial, nextCombination, rankCombination, unrankCombination } from './combinations';
+
+describe('combinations', () => {
+  it('counts five-card hands', () => {
+    expect(binomial(52, 5)).toBe(2598960n);
+    expect(binomial(3, 5)).toBe(0n);
+  });
+
+  it('steps through every set in rank order', () => {
+    const positions = [0, 1, 2];
+    const seen: number[][] = [];
+    do seen.push([...positions]); while (nextCombination(positions, 6));
+
+    expect(seen).toHaveLength(20);
+    seen.forEach((set, rank) => {
+      expect(rankCombination(set)).toBe(BigInt(rank));
+      expect(unrankCombination(BigInt(rank), 3)).toEqual(set);
+    });
+  });
+});
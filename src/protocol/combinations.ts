@@ -0,0 +1,41 @@
+// --- COMBINATIONS ---
+// Sets of k positions out of n, numbered in colexicographic order: a set is ranked by its
+// largest position first, so {0,1,2} is 0, {0,1,3} is 1 and every set below n comes before
+// any set that uses n. Ranks are bigints because C(n, k) outgrows 2^53 for larger decks.
+
+export function binomial(n: number, k: number): bigint {
+  if (k < 0 || k > n) return 0n;
+  let result = 1n;
+  for (let i = 0; i < k; i++) result = (result * BigInt(n - i)) / BigInt(i + 1);
+  return result;
+}
+
+// `sorted` must be in increasing order
+export function rankCombination(sorted: number[]): bigint {
+  return sorted.reduce((rank, position, i) => rank + binomial(position, i + 1), 0n);
+}
+
+export function unrankCombination(rank: bigint, size: number): number[] {
+  const positions: number[] = [];
+  let rest = rank;
+  for (let i = size; i >= 1; i--) {
+    let position = i - 1;
+    while (binomial(position + 1, i) <= rest) position++;
+    rest -= binomial(position, i);
+    positions.unshift(position);
+  }
+  return positions;
+}
+
+// Steps `positions` to the next set in colex order, in place; false once the last set is passed.
+export function nextCombination(positions: number[], n: number): boolean {
+  for (let i = 0; i < positions.length; i++) {
+    const limit = i + 1 < positions.length ? positions[i + 1] : n;
+    if (positions[i] + 1 < limit) {
+      positions[i]++;
+      for (let j = 0; j < i; j++) positions[j] = j;
+      return true;
+    }
+  }
+  return false;
+}
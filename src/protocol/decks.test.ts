@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createDeck, makeCard } from './cards';
+import { DECKS, buildDeck, deckSuits, isStandardDeck } from './decks';
+import { checkDeckSupport, performTrick, revealTrick } from './trick';
+
+describe('buildDeck', () => {
+  it('builds every deck with unique cards of the expected size', () => {
+    const sizes = Object.values(DECKS).map(def => {
+      const deck = buildDeck(def);
+      expect(new Set(deck.map(c => c.id)).size).toBe(deck.length);
+      return [def.id, deck.length];
+    });
+    expect(Object.fromEntries(sizes)).toEqual({ 'standard': 52, 'standard-jokers': 54, 'five-suit': 65, 'piquet': 32 });
+  });
+
+  it('matches createDeck for the standard deck', () => {
+    expect(buildDeck(DECKS.standard)).toEqual(createDeck());
+    expect(isStandardDeck(buildDeck(DECKS.standard))).toBe(true);
+  });
+
+  it('puts jokers in their own pseudo-suit after the deck suits', () => {
+    const deck = buildDeck(DECKS['standard-jokers']);
+    expect(deckSuits(deck)).toEqual(['spades', 'hearts', 'clubs', 'diamonds', 'jokers']);
+    expect(deck.filter(c => c.suit === 'jokers').map(c => c.displayValue)).toEqual(['B', 'R']);
+  });
+});
+
+describe('checkDeckSupport', () => {
+  it('refuses the classic protocol on anything but the standard deck', () => {
+    for (const id of ['standard-jokers', 'five-suit', 'piquet'] as const) {
+      const deck = buildDeck(DECKS[id]);
+      expect(checkDeckSupport(deck, { protocol: 'classic' })).toEqual({ kind: 'not-a-standard-deck', deckSize: deck.length });
+    }
+  });
+
+  it('refuses general hands too small for the deck', () => {
+    const deck = buildDeck(DECKS['five-suit']);
+    expect(checkDeckSupport(deck, { protocol: 'general', handSize: 4 })).toEqual({
+      kind: 'unsupported-deck', handSize: 4, deckSize: 65, maxDeckSize: 27,
+    });
+    expect(checkDeckSupport(deck, { protocol: 'general', handSize: 5 })).toBeUndefined();
+  });
+
+  it('performs the general protocol on a deck with jokers', () => {
+    const deck = buildDeck(DECKS['standard-jokers']);
+    const config = { protocol: 'general', handSize: 5 } as const;
+    const hand = [makeCard('jokers', 14, 'B'), makeCard('jokers', 15, 'R'), makeCard('spades', 1), makeCard('hearts', 7), makeCard('diamonds', 13)];
+    const trick = performTrick(hand, deck, config);
+    if (!trick.ok) throw new Error('expected the hand to be encodable');
+    const revealed = revealTrick(trick.value.shown, deck, config);
+    expect(revealed.ok && revealed.value.hidden).toEqual(trick.value.hidden);
+  });
+});
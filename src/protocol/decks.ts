@@ -0,0 +1,87 @@
+import { type Card, type CardValue, type Suit, SUITS, makeCard } from './cards';
+
+// --- TYPES ---
+
+export type DeckId = 'standard' | 'standard-jokers' | 'five-suit' | 'piquet';
+
+export interface RankDefinition {
+  value: CardValue;
+  label: string;
+}
+
+// A deck as data: which suits it uses (in tab order), which ranks each suit has, and any jokers.
+export interface DeckDefinition {
+  id: DeckId;
+  name: string;
+  description: string;
+  suits: Suit[];
+  ranks: RankDefinition[];
+  jokers: RankDefinition[];
+}
+
+// --- CONSTANTS ---
+
+const STANDARD_RANKS: RankDefinition[] = [
+  { value: 1, label: 'A' },
+  ...[2, 3, 4, 5, 6, 7, 8, 9, 10].map(value => ({ value, label: `${value}` })),
+  { value: 11, label: 'J' },
+  { value: 12, label: 'Q' },
+  { value: 13, label: 'K' },
+];
+
+// Jokers rank above the King
+const JOKERS: RankDefinition[] = [
+  { value: 14, label: 'B' },
+  { value: 15, label: 'R' },
+];
+
+export const DECKS: Record<DeckId, DeckDefinition> = {
+  'standard': {
+    id: 'standard',
+    name: 'Standard',
+    description: '52 cards, four suits, Ace to King',
+    suits: ['spades', 'hearts', 'clubs', 'diamonds'],
+    ranks: STANDARD_RANKS,
+    jokers: [],
+  },
+  'standard-jokers': {
+    id: 'standard-jokers',
+    name: 'Standard with jokers',
+    description: '54 cards: the standard deck plus a black and a red joker',
+    suits: ['spades', 'hearts', 'clubs', 'diamonds'],
+    ranks: STANDARD_RANKS,
+    jokers: JOKERS,
+  },
+  'five-suit': {
+    id: 'five-suit',
+    name: 'Five-suit',
+    description: '65 cards: the standard suits plus stars',
+    suits: ['spades', 'hearts', 'clubs', 'diamonds', 'stars'],
+    ranks: STANDARD_RANKS,
+    jokers: [],
+  },
+  'piquet': {
+    id: 'piquet',
+    name: 'Piquet',
+    description: '32 cards: 7 to King and the Ace in each suit',
+    suits: ['spades', 'hearts', 'clubs', 'diamonds'],
+    ranks: STANDARD_RANKS.filter(r => r.value === 1 || r.value >= 7),
+    jokers: [],
+  },
+};
+
+export const DEFAULT_DECK: DeckId = 'standard';
+
+// --- HELPERS ---
+
+export function buildDeck(definition: DeckDefinition): Card[] {
+  const cards = definition.suits.flatMap(suit => definition.ranks.map(r => makeCard(suit, r.value, r.label)));
+  return [...cards, ...definition.jokers.map(r => makeCard('jokers', r.value, r.label))];
+}
+
+// Suits in tab order, including the jokers' pseudo-suit when the deck has any.
+export const deckSuits = (deck: Card[]): Suit[] => [...new Set(deck.map(c => c.suit))];
+
+// The classic clock protocol needs exactly the 52 standard cards.
+export const isStandardDeck = (deck: Card[]) =>
+  deck.length === 52 && deck.every(c => SUITS.includes(c.suit) && c.value >= 1 && c.value <= 13);
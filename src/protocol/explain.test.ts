@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createDeck, makeCard } from './cards';
+import { ALL_PERMUTATIONS, CLASSIC_CODEBOOK } from './codebook';
+import { explainClassic } from './explain';
+import { type Trick, performTrick } from './trick';
+
+const deck = createDeck();
+const [twoC, nineH, threeH, fiveC, queenS] = [
+  makeCard('clubs', 2), makeCard('hearts', 9), makeCard('hearts', 3), makeCard('clubs', 5), makeCard('spades', 12),
+];
+const hand = [twoC, nineH, threeH, fiveC, queenS];
+
+describe('explainClassic', () => {
+  it('walks through every step of the arrangement', () => {
+    const trick = performTrick(hand, deck, { protocol: 'classic' });
+    if (!trick.ok) throw new Error('expected a trick');
+    const steps = explainClassic(hand, trick.value, CLASSIC_CODEBOOK);
+
+    expect(steps?.map(s => s.kind)).toEqual(['group-by-suit', 'choose-pair', 'clock-distance', 'swap', 'sort', 'permutation']);
+    expect(steps?.[0]).toMatchObject({ suit: 'hearts', groups: [
+      { suit: 'spades', cards: [queenS] },
+      { suit: 'hearts', cards: [nineH, threeH] },
+      { suit: 'clubs', cards: [twoC, fiveC] },
+    ] });
+    // 9 to 3 is seven hours clockwise, so the pair is swapped and counted from the 3
+    expect(steps?.[2]).toMatchObject({ from: nineH, to: threeH, forward: 7, backward: 6 });
+    expect(steps?.[3]).toMatchObject({ indicator: threeH, hidden: nineH, swapped: true, offset: 6 });
+    expect(steps?.[4]).toMatchObject({ cards: [twoC, fiveC, queenS] });
+    expect(steps?.[5]).toMatchObject({ permutation: [2, 1, 0], cards: [queenS, fiveC, twoC] });
+  });
+
+  it('leaves out the code-card steps when the codebook did not make the arrangement', () => {
+    const trick = performTrick(hand, deck, { protocol: 'classic' });
+    if (!trick.ok) throw new Error('expected a trick');
+    const reversed = { ...CLASSIC_CODEBOOK, table: [...ALL_PERMUTATIONS].reverse() };
+    expect(explainClassic(hand, trick.value, reversed)?.map(s => s.kind)).toEqual(['group-by-suit', 'choose-pair', 'clock-distance', 'swap']);
+  });
+
+  it('has nothing to explain for the general protocol', () => {
+    const trick: Trick = { shown: [twoC, nineH], hidden: threeH, reversed: [false, false], detail: { protocol: 'general', code: 1 } };
+    expect(explainClassic([twoC, nineH, threeH], trick, CLASSIC_CODEBOOK)).toBeUndefined();
+  });
+});
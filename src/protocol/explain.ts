@@ -0,0 +1,52 @@
+import { type Card, type Suit, SUITS } from './cards';
+import { CLOCK, clockDistance } from './clock';
+import { type CardOrderId, type Codebook, type Permutation, samePermutation, sortByOrder } from './codebook';
+import type { PairStrategyId } from './pairStrategies';
+import type { Trick } from './trick';
+
+// --- EXPLAIN ---
+// The classic arrangement of one hand broken into the steps a person would follow, for the
+// explainer next to the stage. Every step lists the cards it is about so they can be highlighted.
+
+export type ExplainStep =
+  | { kind: 'group-by-suit'; cards: Card[]; groups: { suit: Suit; cards: Card[] }[]; suit: Suit }
+  | { kind: 'choose-pair'; cards: Card[]; candidates: Card[]; strategy?: PairStrategyId }
+  // The pair in the order it was dealt, counted both ways round the clock
+  | { kind: 'clock-distance'; cards: Card[]; from: Card; to: Card; forward: number; backward: number }
+  | { kind: 'swap'; cards: Card[]; indicator: Card; hidden: Card; swapped: boolean; offset: number }
+  | { kind: 'sort'; cards: Card[]; order: CardOrderId }
+  | { kind: 'permutation'; cards: Card[]; offset: number; permutation: Permutation; sorted: Card[] };
+
+// Steps for a classic trick performed on `hand`; the general protocol has no suit pair to explain.
+export function explainClassic(hand: Card[], trick: Trick, codebook: Codebook): ExplainStep[] | undefined {
+  if (trick.detail.protocol !== 'classic') return undefined;
+  const { offset, strategy } = trick.detail;
+  const [indicator, ...codeCards] = trick.shown;
+  const { hidden } = trick;
+
+  const groups = SUITS
+    .map(suit => ({ suit, cards: hand.filter(c => c.suit === suit) }))
+    .filter(g => g.cards.length > 0);
+  const candidates = hand.filter(c => c.suit === indicator.suit);
+  // Whichever of the pair was dealt first is counted from, so the swap step has something to undo
+  const [from, to] = hand.filter(c => c.id === indicator.id || c.id === hidden.id);
+  const forward = clockDistance(from.value, to.value);
+  const sorted = sortByOrder(codeCards, codebook.order);
+  const permutation = codebook.table[offset - 1];
+  // A logged or shared trick may come from another codebook; its code cards would then contradict
+  // the sorting and permutation steps, so those are left out
+  const matchesCodebook = samePermutation(codeCards.map(c => sorted.indexOf(c)), permutation);
+
+  const steps: ExplainStep[] = [
+    { kind: 'group-by-suit', cards: hand, groups, suit: indicator.suit },
+    { kind: 'choose-pair', cards: [from, to], candidates, strategy },
+    { kind: 'clock-distance', cards: [from, to], from, to, forward, backward: (CLOCK - forward) % CLOCK },
+    { kind: 'swap', cards: [indicator, hidden], indicator, hidden, swapped: from.id !== indicator.id, offset },
+  ];
+  if (!matchesCodebook) return steps;
+  return [
+    ...steps,
+    { kind: 'sort', cards: sorted, order: codebook.order },
+    { kind: 'permutation', cards: codeCards, offset, permutation, sorted },
+  ];
+}
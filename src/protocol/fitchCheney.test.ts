@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { type Card, type CardValue, type Suit, createDeck, makeCard } from './cards';
+import { decode, decodeSequence, encode } from './fitchCheney';
+import { seededRandom } from '../practice/deal';
+
+const card = (value: number, suit: Suit) => makeCard(suit, value as CardValue);
+
+function dealHand(random: () => number): Card[] {
+  const deck = createDeck();
+  const hand: Card[] = [];
+  while (hand.length < 5) {
+    hand.push(deck.splice(Math.floor(random() * deck.length), 1)[0]);
+  }
+  return hand;
+}
+
+describe('encode', () => {
+  it('picks the pair from the first suit in SUITS order and keeps the distance within 6', () => {
+    const hand = [card(2, 'clubs'), card(9, 'hearts'), card(3, 'hearts'), card(5, 'clubs'), card(12, 'spades')];
+    const result = encode(hand);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    // hearts comes before clubs in SUITS; 3 -> 9 is 6 steps clockwise
+    expect(result.value.indicator).toEqual(card(3, 'hearts'));
+    expect(result.value.hidden).toEqual(card(9, 'hearts'));
+    expect(result.value.offset).toBe(6);
+  });
+
+  it('wraps around the clock when the shorter way passes the King', () => {
+    const hand = [card(2, 'spades'), card(11, 'spades'), card(4, 'clubs'), card(6, 'diamonds'), card(8, 'hearts')];
+    const result = encode(hand);
+    if (!result.ok) throw new Error('expected a valid arrangement');
+
+    expect(result.value.indicator).toEqual(card(11, 'spades'));
+    expect(result.value.hidden).toEqual(card(2, 'spades'));
+    expect(result.value.offset).toBe(4);
+  });
+
+  it('orders the code cards as Small/Medium/Large for offset 1', () => {
+    const hand = [card(5, 'diamonds'), card(6, 'diamonds'), card(9, 'spades'), card(9, 'clubs'), card(1, 'hearts')];
+    const result = encode(hand);
+    if (!result.ok) throw new Error('expected a valid arrangement');
+
+    expect(result.value.offset).toBe(1);
+    // Same value ties are broken by suit: clubs < spades
+    expect(result.value.codeCards).toEqual([card(1, 'hearts'), card(9, 'clubs'), card(9, 'spades')]);
+  });
+
+  it('rejects hands that are not exactly five cards', () => {
+    expect(encode([card(1, 'spades')])).toEqual({
+      ok: false,
+      error: { kind: 'wrong-card-count', expected: 5, received: 1 },
+    });
+  });
+
+  it('rejects duplicate cards', () => {
+    const hand = [card(1, 'spades'), card(1, 'spades'), card(2, 'hearts'), card(3, 'clubs'), card(4, 'diamonds')];
+    const result = encode(hand);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toEqual({ kind: 'duplicate-card', card: card(1, 'spades') });
+  });
+});
+
+describe('decode', () => {
+  it('recovers the hidden card for every offset', () => {
+    const indicator = card(10, 'hearts');
+    const [s, m, l] = [card(2, 'clubs'), card(7, 'diamonds'), card(7, 'spades')];
+    const orders = [[s, m, l], [s, l, m], [m, s, l], [m, l, s], [l, s, m], [l, m, s]];
+
+    orders.forEach((codeCards, i) => {
+      const result = decode(indicator, codeCards);
+      if (!result.ok) throw new Error('expected a decoded card');
+      expect(result.value.offset).toBe(i + 1);
+      expect(result.value.hidden).toEqual(card(((10 + i) % 13) + 1, 'hearts'));
+    });
+  });
+
+  it('rejects the wrong number of code cards', () => {
+    const result = decode(card(1, 'spades'), [card(2, 'spades'), card(3, 'spades')]);
+    expect(result).toEqual({ ok: false, error: { kind: 'wrong-card-count', expected: 3, received: 2 } });
+  });
+
+  it('rejects duplicates between the indicator and the code cards', () => {
+    const result = decode(card(1, 'spades'), [card(2, 'hearts'), card(1, 'spades'), card(3, 'clubs')]);
+    expect(result).toEqual({ ok: false, error: { kind: 'duplicate-card', card: card(1, 'spades') } });
+  });
+
+  it('rejects sequences that would point at a card already on the table', () => {
+    // S M L -> offset 1 -> 2 of spades, which is one of the code cards
+    const result = decode(card(1, 'spades'), [card(2, 'spades'), card(5, 'hearts'), card(8, 'clubs')]);
+    expect(result).toEqual({ ok: false, error: { kind: 'hidden-card-shown', card: card(2, 'spades') } });
+  });
+});
+
+describe('decodeSequence', () => {
+  it('treats the first card as the indicator', () => {
+    const result = decodeSequence([card(13, 'clubs'), card(3, 'diamonds'), card(2, 'spades'), card(4, 'hearts')]);
+    // M S L -> offset 3, King + 3 wraps to 3
+    expect(result).toEqual({ ok: true, value: { hidden: card(3, 'clubs'), offset: 3 } });
+  });
+
+  it('rejects sequences that are not four cards long', () => {
+    expect(decodeSequence([])).toEqual({ ok: false, error: { kind: 'wrong-card-count', expected: 4, received: 0 } });
+  });
+});
+
+describe('encode/decode round trip', () => {
+  it('decodes every encoded hand back to its hidden card', () => {
+    // Seeded so failures are reproducible
+    const random = seededRandom(52);
+    for (let i = 0; i < 5000; i++) {
+      const hand = dealHand(random);
+      const encoded = encode(hand);
+      if (!encoded.ok) throw new Error(`encode failed for ${hand.map(c => c.id).join(', ')}`);
+
+      const { indicator, codeCards, hidden } = encoded.value;
+      const decoded = decode(indicator, codeCards);
+      expect(decoded).toEqual({ ok: true, value: { hidden, offset: encoded.value.offset } });
+    }
+  });
+});
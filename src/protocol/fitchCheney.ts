@@ -0,0 +1,121 @@
+import { type Card, describeCard, isSameCard, makeCard } from './cards';
+import { addOnClock } from './clock';
+import { type Codebook, CLASSIC_CODEBOOK, samePermutation, sortByOrder } from './codebook';
+import { type PairStrategy, type PairStrategyId, DEFAULT_PAIR_STRATEGY, PAIR_STRATEGY_LABELS } from './pairStrategies';
+import { type Result, ok, err } from './result';
+
+// --- TYPES ---
+
+export interface Arrangement {
+  indicator: Card;
+  hidden: Card;
+  codeCards: Card[];
+  offset: number;
+  strategy: PairStrategyId;
+}
+
+export interface Decoded {
+  hidden: Card;
+  offset: number;
+}
+
+export type ProtocolError =
+  | { kind: 'wrong-card-count'; expected: number; received: number }
+  | { kind: 'duplicate-card'; card: Card }
+  | { kind: 'hidden-card-shown'; card: Card }
+  | { kind: 'no-pair'; strategy: PairStrategyId }
+  | { kind: 'card-not-in-deck'; card: Card }
+  | { kind: 'unsupported-deck'; handSize: number; deckSize: number; maxDeckSize: number }
+  | { kind: 'not-a-standard-deck'; deckSize: number }
+  | { kind: 'invalid-hidden-slot'; slot: number | undefined; slots: number }
+  | { kind: 'no-such-card' };
+
+export const HAND_SIZE = 5;
+export const CODE_SIZE = 3;
+
+export interface ProtocolOptions {
+  codebook?: Codebook;
+}
+
+export interface EncodeOptions extends ProtocolOptions {
+  pairStrategy?: PairStrategy;
+}
+
+// --- HELPERS ---
+
+function findDuplicate(cards: Card[]): Card | undefined {
+  return cards.find((c, i) => cards.findIndex(other => isSameCard(c, other)) !== i);
+}
+
+export function describeProtocolError(error: ProtocolError): string {
+  switch (error.kind) {
+    case 'wrong-card-count': return `Expected ${error.expected} cards, got ${error.received}`;
+    case 'duplicate-card': return `${describeCard(error.card)} appears more than once`;
+    case 'hidden-card-shown': return `The decoded card (${describeCard(error.card)}) is already on the table`;
+    case 'no-pair': return `${PAIR_STRATEGY_LABELS[error.strategy]} could not find a usable pair`;
+    case 'card-not-in-deck': return `${describeCard(error.card)} is not in this deck`;
+    case 'unsupported-deck': return `A ${error.handSize}-card hand works with decks of ${error.handSize} to ${error.maxDeckSize} cards, not ${error.deckSize}`;
+    case 'not-a-standard-deck': return `The classic clock protocol needs the standard 52-card deck, not a ${error.deckSize}-card deck`;
+    case 'invalid-hidden-slot': return error.slot === undefined
+      ? `Mark which of the ${error.slots} positions holds the face-down card`
+      : `Position ${error.slot + 1} is not one of the ${error.slots} positions`;
+    case 'no-such-card': return 'That sequence does not point at any card in the deck';
+  }
+}
+
+// --- ENCODE (the assistant) ---
+
+export function encode(hand: Card[], options: EncodeOptions = {}): Result<Arrangement, ProtocolError> {
+  const { pairStrategy: strategy = DEFAULT_PAIR_STRATEGY, codebook = CLASSIC_CODEBOOK } = options;
+  if (hand.length !== HAND_SIZE) {
+    return err({ kind: 'wrong-card-count', expected: HAND_SIZE, received: hand.length });
+  }
+  const duplicate = findDuplicate(hand);
+  if (duplicate) return err({ kind: 'duplicate-card', card: duplicate });
+
+  // 1. Find a suit with at least 2 cards (Pigeonhole: five cards over four suits guarantees one)
+  // 2. The strategy picks the pair and orients it so the clockwise distance is at most 6
+  const pair = strategy.selectPair(hand);
+  if (!pair) return err({ kind: 'no-pair', strategy: strategy.id });
+  const { indicator, hidden, distance: offset } = pair;
+
+  // 3. Sort the remaining 3 cards strictly to define Small, Medium, Large
+  const sorted = sortByOrder(hand.filter(c => c !== indicator && c !== hidden), codebook.order);
+
+  // 4. Permute based on offset (1-6) using the codebook's table
+  const codeCards = codebook.table[offset - 1].map(i => sorted[i]);
+
+  return ok({ indicator, hidden, codeCards, offset, strategy: strategy.id });
+}
+
+// --- DECODE (the magician) ---
+
+export function decode(indicator: Card, codeCards: Card[], options: ProtocolOptions = {}): Result<Decoded, ProtocolError> {
+  const { codebook = CLASSIC_CODEBOOK } = options;
+  if (codeCards.length !== CODE_SIZE) {
+    return err({ kind: 'wrong-card-count', expected: CODE_SIZE, received: codeCards.length });
+  }
+  const duplicate = findDuplicate([indicator, ...codeCards]);
+  if (duplicate) return err({ kind: 'duplicate-card', card: duplicate });
+
+  // Read the permutation of Small/Medium/Large back into an offset
+  const sorted = sortByOrder(codeCards, codebook.order);
+  const order = codeCards.map(c => sorted.indexOf(c));
+  const offset = codebook.table.findIndex(p => samePermutation(p, order)) + 1;
+
+  const hidden = makeCard(indicator.suit, addOnClock(indicator.value, offset));
+  // A real arrangement never decodes to a card that is already face up
+  const shown = codeCards.find(c => isSameCard(c, hidden));
+  if (shown) return err({ kind: 'hidden-card-shown', card: shown });
+
+  return ok({ hidden, offset });
+}
+
+// Decodes the four face-up cards in the order they were laid out: indicator first, then the code cards.
+export function decodeSequence(sequence: Card[], options: ProtocolOptions = {}): Result<Decoded, ProtocolError> {
+  if (sequence.length !== CODE_SIZE + 1) {
+    return err({ kind: 'wrong-card-count', expected: CODE_SIZE + 1, received: sequence.length });
+  }
+  const [indicator, ...codeCards] = sequence;
+  return decode(indicator, codeCards, options);
+}
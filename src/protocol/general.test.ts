@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { createDeck, makeCard } from './cards';
+import {
+  type GeneralConfig,
+  codeCapacity,
+  decodeIndices,
+  encodeIndices,
+  factorial,
+  joinCode,
+  maxDeckSize,
+  rankPermutation,
+  splitCode,
+  unrankPermutation,
+} from './general';
+import { performTrick, revealTrick, tableLayout } from './trick';
+
+// All k-element subsets of 0..n-1
+function* combinations(n: number, k: number, start = 0, prefix: number[] = []): Generator<number[]> {
+  if (prefix.length === k) {
+    yield prefix;
+    return;
+  }
+  for (let i = start; i <= n - (k - prefix.length); i++) {
+    yield* combinations(n, k, i + 1, [...prefix, i]);
+  }
+}
+
+function expectRoundTrip(hand: number[], config: GeneralConfig) {
+  const encoded = encodeIndices(hand, config);
+  if (!encoded.ok) throw new Error(`encode failed for ${hand.join(',')}`);
+  const { shown, reversed, hiddenSlot } = encoded.value;
+  const decoded = decodeIndices(shown, config, { reversed, hiddenSlot });
+  expect(decoded.ok && decoded.value.hidden).toBe(encoded.value.hidden);
+}
+
+describe('permutation ranking', () => {
+  it('ranks and unranks every permutation of four items in lexicographic order', () => {
+    for (let rank = 0; rank < factorial(4); rank++) {
+      const permutation = unrankPermutation(rank, 4);
+      expect(rankPermutation(permutation)).toBe(rank);
+    }
+    expect(unrankPermutation(0, 3)).toEqual([0, 1, 2]);
+    expect(unrankPermutation(5, 3)).toEqual([2, 1, 0]);
+  });
+});
+
+describe('maxDeckSize', () => {
+  it('is k! + k - 1', () => {
+    expect(maxDeckSize(3)).toBe(8);
+    expect(maxDeckSize(4)).toBe(27);
+    expect(maxDeckSize(5)).toBe(124);
+  });
+});
+
+describe('general protocol', () => {
+  it('round-trips every hand of 3 from 8 cards', () => {
+    for (const hand of combinations(8, 3)) expectRoundTrip(hand, { handSize: 3, deckSize: 8 });
+  });
+
+  it('round-trips every hand of 4 from 27 cards', () => {
+    for (const hand of combinations(27, 4)) expectRoundTrip(hand, { handSize: 4, deckSize: 27 });
+  });
+
+  it('round-trips five-card hands from the full 124-card deck', () => {
+    let seed = 124;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    for (let i = 0; i < 2000; i++) {
+      const hand = new Set<number>();
+      while (hand.size < 5) hand.add(Math.floor(random() * 124));
+      expectRoundTrip([...hand], { handSize: 5, deckSize: 124 });
+    }
+  });
+
+  it('uses every shown sequence exactly once on a full deck', () => {
+    const config = { handSize: 3, deckSize: 8 };
+    const sequences = new Set<string>();
+    for (const hand of combinations(8, 3)) {
+      const encoded = encodeIndices(hand, config);
+      if (encoded.ok) sequences.add(encoded.value.shown.join(','));
+    }
+    // 8 * 7 ordered pairs of shown cards, one for each of the C(8, 3) = 56 hands
+    expect(sequences.size).toBe(56);
+  });
+
+  it('rejects decks larger than k! + k - 1', () => {
+    expect(encodeIndices([0, 1, 2, 3, 4], { handSize: 5, deckSize: 125 })).toEqual({
+      ok: false,
+      error: { kind: 'unsupported-config', config: { handSize: 5, deckSize: 125 }, maxDeckSize: 124 },
+    });
+  });
+
+  it('rejects malformed hands', () => {
+    const config = { handSize: 4, deckSize: 20 };
+    expect(encodeIndices([1, 2, 3], config)).toEqual({ ok: false, error: { kind: 'wrong-card-count', expected: 4, received: 3 } });
+    expect(encodeIndices([1, 2, 2, 3], config)).toEqual({ ok: false, error: { kind: 'duplicate-index', index: 2 } });
+    expect(encodeIndices([1, 2, 3, 20], config)).toEqual({ ok: false, error: { kind: 'index-out-of-range', index: 20 } });
+  });
+
+  it('reports sequences that point past the end of a short deck', () => {
+    // The last ordering (code 5) points beyond the seven unseen cards of a 10-card deck
+    expect(decodeIndices([2, 1, 0], { handSize: 4, deckSize: 10 })).toEqual({ ok: false, error: { kind: 'no-such-card' } });
+  });
+});
+
+describe('layout variants', () => {
+  it('multiplies the codes by reversals and face-down positions', () => {
+    expect(codeCapacity(4, 'reversals')).toBe(6 * 8);
+    expect(codeCapacity(4, 'face-down')).toBe(6 * 4);
+    expect(maxDeckSize(4, 'reversals')).toBe(195);
+    expect(maxDeckSize(3, 'reversals-face-down')).toBe(74);
+  });
+
+  it('splits and joins codes', () => {
+    for (let code = 0; code < codeCapacity(4, 'reversals-face-down'); code++) {
+      expect(joinCode(splitCode(code, 4, 'reversals-face-down'), 4, 'reversals-face-down')).toBe(code);
+    }
+  });
+
+  it('round-trips every hand of 3 from 26 cards with reversals', () => {
+    for (const hand of combinations(26, 3)) expectRoundTrip(hand, { handSize: 3, deckSize: 26, variant: 'reversals' });
+  });
+
+  it('round-trips every hand of 3 from 74 cards with reversals and a face-down card', () => {
+    for (const hand of combinations(74, 3)) expectRoundTrip(hand, { handSize: 3, deckSize: 74, variant: 'reversals-face-down' });
+  });
+
+  it('uses every layout exactly once on a full deck', () => {
+    const config: GeneralConfig = { handSize: 3, deckSize: 26, variant: 'reversals' };
+    const layouts = new Set<string>();
+    for (const hand of combinations(26, 3)) {
+      const encoded = encodeIndices(hand, config);
+      if (encoded.ok) layouts.add(`${encoded.value.shown.join(',')}/${encoded.value.reversed.join(',')}`);
+    }
+    // 26 * 25 ordered pairs in 4 orientations, one for each of the C(26, 3) = 2600 hands
+    expect(layouts.size).toBe(2600);
+  });
+
+  it('needs the face-down position to decode', () => {
+    const config: GeneralConfig = { handSize: 4, deckSize: 52, variant: 'face-down' };
+    expect(decodeIndices([3, 9, 20], config)).toEqual({ ok: false, error: { kind: 'invalid-hidden-slot', slot: undefined, slots: 4 } });
+    expect(decodeIndices([3, 9, 20], config, { hiddenSlot: 4 })).toEqual({ ok: false, error: { kind: 'invalid-hidden-slot', slot: 4, slots: 4 } });
+  });
+});
+
+describe('general protocol on a standard deck', () => {
+  const deck = createDeck();
+
+  it('performs and reveals a six-card hand', () => {
+    const hand = [makeCard('hearts', 12), makeCard('clubs', 3), makeCard('spades', 1), makeCard('diamonds', 9), makeCard('hearts', 4), makeCard('clubs', 10)];
+    const config = { protocol: 'general' as const, handSize: 6 };
+
+    const performed = performTrick(hand, deck, config);
+    if (!performed.ok) throw new Error('expected a trick');
+    expect(performed.value.shown).toHaveLength(5);
+
+    const revealed = revealTrick(performed.value.shown, deck, config);
+    expect(revealed.ok && revealed.value.hidden).toEqual(performed.value.hidden);
+  });
+
+  it('performs a four-card hand with reversals', () => {
+    const hand = [makeCard('spades', 13), makeCard('hearts', 2), makeCard('clubs', 7), makeCard('diamonds', 11)];
+    const config = { protocol: 'general' as const, handSize: 4, variant: 'reversals' as const };
+
+    const performed = performTrick(hand, deck, config);
+    if (!performed.ok) throw new Error('expected a trick');
+    const { shown, reversed } = performed.value;
+    expect(tableLayout(performed.value).map(p => p.card)).toEqual(shown);
+
+    const revealed = revealTrick(shown, deck, config, { reversed });
+    expect(revealed.ok && revealed.value.hidden).toEqual(performed.value.hidden);
+  });
+
+  it('slots the hidden card into the row for face-down variants', () => {
+    const hand = [makeCard('spades', 13), makeCard('hearts', 2), makeCard('clubs', 7), makeCard('diamonds', 11)];
+    const performed = performTrick(hand, deck, { protocol: 'general', handSize: 4, variant: 'face-down' });
+    if (!performed.ok) throw new Error('expected a trick');
+    const { hidden, hiddenSlot } = performed.value;
+    const row = tableLayout(performed.value);
+    expect(row).toHaveLength(4);
+    expect(row[hiddenSlot ?? -1]).toEqual({ card: hidden, reversed: false, faceDown: true });
+  });
+
+  it('refuses hand sizes too small for 52 cards', () => {
+    const hand = deck.slice(0, 4);
+    expect(performTrick(hand, deck, { protocol: 'general', handSize: 4 })).toEqual({
+      ok: false,
+      error: { kind: 'unsupported-deck', handSize: 4, deckSize: 52, maxDeckSize: 27 },
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { type Result, ok, err } from './result';
+import { type VariantId, DEFAULT_VARIANT, VARIANTS } from './variants';
+
+// --- GENERAL k-CARD PROTOCOL ---
+// Cards are numbered 0..deckSize-1. The assistant receives k of them, hides one and shows
+// the other k-1 in an order that identifies it. Hall's theorem says a perfect matching
+// between hands and shown sequences exists whenever deckSize <= k! + k - 1; this is the
+// explicit matching from Kleber's "The Best Card Trick":
+//   1. Sort the hand c0 < c1 < ... < c(k-1) and hide c(s) where s = (sum of the hand) mod k.
+//   2. Number the cards the magician cannot see 0, 1, 2, ... The hidden card gets r = c(s) - s,
+//      and r is always congruent to -(sum of the shown cards) mod k.
+//   3. Show the remaining cards in the permutation whose lexicographic rank is q = floor(r / k).
+// The magician reads q from the order, recovers the residue from the shown sum, and counts
+// to the (k*q + residue)-th unseen card.
+// Layout variants (see variants.ts) widen the code: q is read as a mixed-radix number whose
+// digits are the permutation, the reversed cards as a binary number, and the face-down position.
+// With M codes per shown set the deck can hold up to k*M + k - 1 cards.
+
+// --- TYPES ---
+
+export interface GeneralConfig {
+  handSize: number;
+  deckSize: number;
+  variant?: VariantId;
+}
+
+// What the table shows besides the order. Missing reversal flags read as upright.
+export interface LayoutMarks {
+  reversed?: boolean[];
+  hiddenSlot?: number;
+}
+
+export interface GeneralArrangement {
+  shown: number[];
+  hidden: number;
+  code: number;
+  // One flag per shown card; all false unless the variant uses reversals
+  reversed: boolean[];
+  // Position of the face-down hidden card in the row of handSize cards, for face-down variants
+  hiddenSlot?: number;
+}
+
+// The digits of a code: permutation rank, reversal bits (first card most significant), face-down position
+export interface CodeDigits {
+  permutation: number;
+  reversals: number;
+  slot: number;
+}
+
+export type GeneralError =
+  | { kind: 'unsupported-config'; config: GeneralConfig; maxDeckSize: number }
+  | { kind: 'wrong-card-count'; expected: number; received: number }
+  | { kind: 'duplicate-index'; index: number }
+  | { kind: 'index-out-of-range'; index: number }
+  | { kind: 'invalid-hidden-slot'; slot: number | undefined; slots: number }
+  | { kind: 'no-such-card' };
+
+// --- HELPERS ---
+
+export function factorial(n: number): number {
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+}
+
+// How many values of each code digit a layout of k cards can show.
+function digitSizes(handSize: number, variant: VariantId) {
+  const { reversals, faceDown } = VARIANTS[variant];
+  return {
+    permutation: factorial(handSize - 1),
+    reversals: reversals ? 2 ** (handSize - 1) : 1,
+    slot: faceDown ? handSize : 1,
+  };
+}
+
+// Number of distinct layouts of the same shown cards.
+export function codeCapacity(handSize: number, variant: VariantId = DEFAULT_VARIANT): number {
+  const sizes = digitSizes(handSize, variant);
+  return sizes.permutation * sizes.reversals * sizes.slot;
+}
+
+// The largest deck a hand of k cards can work with: k! + k - 1 (124 for the five-card trick) when only order is used.
+export const maxDeckSize = (handSize: number, variant: VariantId = DEFAULT_VARIANT) =>
+  handSize * codeCapacity(handSize, variant) + handSize - 1;
+
+export function splitCode(code: number, handSize: number, variant: VariantId = DEFAULT_VARIANT): CodeDigits {
+  const sizes = digitSizes(handSize, variant);
+  const slot = code % sizes.slot;
+  const rest = Math.floor(code / sizes.slot);
+  return { permutation: Math.floor(rest / sizes.reversals), reversals: rest % sizes.reversals, slot };
+}
+
+export function joinCode(digits: CodeDigits, handSize: number, variant: VariantId = DEFAULT_VARIANT): number {
+  const sizes = digitSizes(handSize, variant);
+  return (digits.permutation * sizes.reversals + digits.reversals) * sizes.slot + digits.slot;
+}
+
+const toBits = (value: number, length: number) =>
+  Array.from({ length }, (_, i) => Math.floor(value / 2 ** (length - 1 - i)) % 2 === 1);
+const fromBits = (bits: boolean[]) => bits.reduce((value, bit) => value * 2 + (bit ? 1 : 0), 0);
+
+const mod = (a: number, m: number) => ((a % m) + m) % m;
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+const ascending = (values: number[]) => [...values].sort((a, b) => a - b);
+
+// Lexicographic rank of a permutation of 0..m-1 (its Lehmer code read as a factorial-base number).
+export function rankPermutation(permutation: number[]): number {
+  let rank = 0;
+  permutation.forEach((value, i) => {
+    const smallerLater = permutation.slice(i + 1).filter(v => v < value).length;
+    rank += smallerLater * factorial(permutation.length - 1 - i);
+  });
+  return rank;
+}
+
+// Inverse of rankPermutation: the `rank`-th permutation of 0..size-1 in lexicographic order.
+export function unrankPermutation(rank: number, size: number): number[] {
+  const pool = Array.from({ length: size }, (_, i) => i);
+  const permutation: number[] = [];
+  for (let i = size - 1; i >= 0; i--) {
+    const f = factorial(i);
+    permutation.push(pool.splice(Math.floor(rank / f), 1)[0]);
+    rank %= f;
+  }
+  return permutation;
+}
+
+export function checkGeneralConfig(config: GeneralConfig): GeneralError | undefined {
+  const { handSize, deckSize, variant = DEFAULT_VARIANT } = config;
+  const max = maxDeckSize(handSize, variant);
+  if (!Number.isInteger(handSize) || handSize < 2 || !Number.isInteger(deckSize) || deckSize < handSize || deckSize > max) {
+    return { kind: 'unsupported-config', config, maxDeckSize: max };
+  }
+}
+
+function checkIndices(indices: number[], expected: number, deckSize: number): GeneralError | undefined {
+  if (indices.length !== expected) return { kind: 'wrong-card-count', expected, received: indices.length };
+  const outOfRange = indices.find(i => !Number.isInteger(i) || i < 0 || i >= deckSize);
+  if (outOfRange !== undefined) return { kind: 'index-out-of-range', index: outOfRange };
+  const duplicate = indices.find((v, i) => indices.indexOf(v) !== i);
+  if (duplicate !== undefined) return { kind: 'duplicate-index', index: duplicate };
+}
+
+// --- ENCODE / DECODE ---
+
+export function encodeIndices(hand: number[], config: GeneralConfig): Result<GeneralArrangement, GeneralError> {
+  const invalid = checkGeneralConfig(config) ?? checkIndices(hand, config.handSize, config.deckSize);
+  if (invalid) return err(invalid);
+
+  const k = config.handSize;
+  const sorted = ascending(hand);
+  const s = mod(sum(sorted), k);
+  const hidden = sorted[s];
+  const remaining = sorted.filter(c => c !== hidden);
+
+  // Position of the hidden card among the cards the magician cannot see
+  const r = hidden - s;
+  const code = Math.floor(r / k);
+  const variant = config.variant ?? DEFAULT_VARIANT;
+  const digits = splitCode(code, k, variant);
+  const shown = unrankPermutation(digits.permutation, k - 1).map(i => remaining[i]);
+  const reversed = toBits(digits.reversals, VARIANTS[variant].reversals ? k - 1 : 0);
+
+  return ok({
+    shown,
+    hidden,
+    code,
+    reversed: shown.map((_, i) => reversed[i] ?? false),
+    ...(VARIANTS[variant].faceDown && { hiddenSlot: digits.slot }),
+  });
+}
+
+export function decodeIndices(shown: number[], config: GeneralConfig, marks: LayoutMarks = {}): Result<GeneralArrangement, GeneralError> {
+  const invalid = checkGeneralConfig(config) ?? checkIndices(shown, config.handSize - 1, config.deckSize);
+  if (invalid) return err(invalid);
+
+  const k = config.handSize;
+  const variant = VARIANTS[config.variant ?? DEFAULT_VARIANT];
+  const { hiddenSlot } = marks;
+  if (variant.faceDown && (hiddenSlot === undefined || !Number.isInteger(hiddenSlot) || hiddenSlot < 0 || hiddenSlot >= k)) {
+    return err({ kind: 'invalid-hidden-slot', slot: hiddenSlot, slots: k });
+  }
+
+  const reversed = shown.map((_, i) => variant.reversals && (marks.reversed?.[i] ?? false));
+  const sorted = ascending(shown);
+  const code = joinCode({
+    permutation: rankPermutation(shown.map(c => sorted.indexOf(c))),
+    reversals: fromBits(reversed),
+    slot: variant.faceDown ? hiddenSlot ?? 0 : 0,
+  }, k, variant.id);
+  const r = k * code + mod(-sum(shown), k);
+
+  // Count to the r-th card that is not on the table
+  const unseen = Array.from({ length: config.deckSize }, (_, i) => i).filter(c => !shown.includes(c));
+  if (r >= unseen.length) return err({ kind: 'no-such-card' });
+
+  return ok({ shown, hidden: unseen[r], code, reversed, ...(variant.faceDown && { hiddenSlot }) });
+}
@@ -0,0 +1,14 @@
+export * from './cards';
+export * from './decks';
+export * from './result';
+export * from './clock';
+export * from './pairStrategies';
+export * from './codebook';
+export * from './combinations';
+export * from './fitchCheney';
+export * from './notation';
+export * from './variants';
+export * from './general';
+export * from './trick';
+export * from './explain';
+export * from './verify';
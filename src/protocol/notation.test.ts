@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createDeck, makeCard } from './cards';
+import { DECKS, buildDeck } from './decks';
+import { formatCard, formatCards, parseCard, parseCards, suggestCards } from './notation';
+
+describe('parseCards', () => {
+  it('reads letters, symbols, tens written as T and any case', () => {
+    expect(parseCards('AS KH 10d Tc 7♦')).toEqual({
+      ok: true,
+      value: [makeCard('spades', 1), makeCard('hearts', 13), makeCard('diamonds', 10), makeCard('clubs', 10), makeCard('diamonds', 7)],
+    });
+    expect(parseCards('q♥️, 2♧')).toEqual({ ok: true, value: [makeCard('hearts', 12), makeCard('clubs', 2)] });
+    expect(parseCards('  ')).toEqual({ ok: true, value: [] });
+  });
+
+  it('explains invalid and duplicate cards', () => {
+    expect(parseCards('AS KZ')).toEqual({ ok: false, error: { kind: 'unknown-suit', token: 'KZ' } });
+    expect(parseCards('1S')).toEqual({ ok: false, error: { kind: 'unknown-rank', token: '1S' } });
+    expect(parseCards('AS 7h as')).toEqual({ ok: false, error: { kind: 'duplicate-card', token: 'as', card: makeCard('spades', 1) } });
+  });
+
+  it('parses against the chosen deck', () => {
+    const jokers = buildDeck(DECKS['standard-jokers']);
+    expect(parseCard('BJ', jokers)).toEqual({ ok: true, value: makeCard('jokers', 14, 'B') });
+    expect(parseCard('2S', buildDeck(DECKS.piquet))).toEqual({ ok: false, error: { kind: 'unknown-rank', token: '2S' } });
+    expect(parseCard('5X', createDeck())).toEqual({ ok: false, error: { kind: 'not-in-deck', token: '5X' } });
+    expect(parseCard('5X', buildDeck(DECKS['five-suit']))).toEqual({ ok: true, value: makeCard('stars', 5) });
+  });
+});
+
+describe('formatCards', () => {
+  it('round-trips every card of the deck in both short styles', () => {
+    const deck = createDeck();
+    expect(parseCards(formatCards(deck, 'symbols'))).toEqual({ ok: true, value: deck });
+    expect(parseCards(formatCards(deck, 'letters'))).toEqual({ ok: true, value: deck });
+  });
+
+  it('spells cards out for reading aloud', () => {
+    expect(formatCards([makeCard('spades', 1), makeCard('diamonds', 7)], 'words')).toBe('Ace of spades, 7 of diamonds');
+    expect(formatCard(makeCard('hearts', 12), 'letters')).toBe('Qh');
+  });
+});
+
+describe('suggestCards', () => {
+  it('completes a partly typed card', () => {
+    expect(suggestCards('k').map(c => c.id)).toEqual(['spades-13', 'hearts-13', 'clubs-13', 'diamonds-13']);
+    expect(suggestCards('t♥').map(c => c.id)).toEqual(['hearts-10']);
+    expect(suggestCards('1', createDeck(), [makeCard('spades', 10)]).map(c => c.id)).toEqual(['hearts-10', 'clubs-10', 'diamonds-10']);
+  });
+});
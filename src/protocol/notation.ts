@@ -0,0 +1,113 @@
+import { type Card, type Suit, createDeck, describeCard, isSameCard } from './cards';
+import { type Result, ok, err } from './result';
+
+// --- CARD NOTATION ---
+// Cards as short text: a rank (A, 2-10 or T, J, Q, K, or a deck's own labels such as the
+// jokers' B and R) followed by a suit letter or symbol, e.g. `AS KH 10d Tc 7♦`. Case does not
+// matter and cards may be separated by spaces or commas.
+
+export type NotationStyle = 'symbols' | 'letters' | 'words';
+
+export type NotationError =
+  | { kind: 'unknown-suit'; token: string }
+  | { kind: 'unknown-rank'; token: string }
+  | { kind: 'not-in-deck'; token: string }
+  | { kind: 'duplicate-card'; token: string; card: Card };
+
+const SUIT_LETTERS: Record<Suit, string> = {
+  clubs: 'C',
+  diamonds: 'D',
+  hearts: 'H',
+  spades: 'S',
+  stars: 'X',
+  jokers: 'J',
+};
+
+// First symbol is the one used for formatting; outline variants are accepted when parsing
+const SUIT_GLYPHS: Record<Suit, string[]> = {
+  clubs: ['♣', '♧'],
+  diamonds: ['♦', '♢'],
+  hearts: ['♥', '♡'],
+  spades: ['♠', '♤'],
+  stars: ['★', '☆'],
+  jokers: ['🃏'],
+};
+
+const RANK_WORDS: Record<string, string> = { A: 'Ace', J: 'Jack', Q: 'Queen', K: 'King' };
+
+// Also the keyboard shortcut for the suit's tab in the card picker
+export const suitLetter = (suit: Suit) => SUIT_LETTERS[suit];
+
+const SUITS_BY_ALIAS = new Map<string, Suit>(
+  (Object.keys(SUIT_LETTERS) as Suit[]).flatMap(suit => [SUIT_LETTERS[suit], ...SUIT_GLYPHS[suit]].map(alias => [alias, suit] as const)),
+);
+
+// --- PARSE ---
+
+// Emoji presentation selectors (♥️) are dropped before matching
+const normalize = (token: string) => token.replace(/\uFE0F/g, '').toUpperCase();
+
+const splitTokens = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+
+export function parseCard(token: string, deck: Card[] = createDeck()): Result<Card, NotationError> {
+  const chars = [...normalize(token)];
+  const suit = SUITS_BY_ALIAS.get(chars[chars.length - 1] ?? '');
+  if (!suit || chars.length < 2) return err({ kind: 'unknown-suit', token });
+
+  const label = chars.slice(0, -1).join('');
+  const rank = label === 'T' ? '10' : label;
+  if (!deck.some(c => c.displayValue.toUpperCase() === rank)) return err({ kind: 'unknown-rank', token });
+
+  const card = deck.find(c => c.suit === suit && c.displayValue.toUpperCase() === rank);
+  return card ? ok(card) : err({ kind: 'not-in-deck', token });
+}
+
+export function parseCards(text: string, deck: Card[] = createDeck()): Result<Card[], NotationError> {
+  const cards: Card[] = [];
+  for (const token of splitTokens(text)) {
+    const parsed = parseCard(token, deck);
+    if (!parsed.ok) return parsed;
+    if (cards.some(c => isSameCard(c, parsed.value))) return err({ kind: 'duplicate-card', token, card: parsed.value });
+    cards.push(parsed.value);
+  }
+  return ok(cards);
+}
+
+// Cards of `deck` whose notation starts with what has been typed so far, for type-ahead.
+export function suggestCards(prefix: string, deck: Card[] = createDeck(), exclude: Card[] = []): Card[] {
+  const typed = [...normalize(prefix)].map(ch => {
+    const suit = SUITS_BY_ALIAS.get(ch);
+    return suit ? SUIT_LETTERS[suit] : ch;
+  }).join('');
+  if (!typed) return [];
+
+  return deck.filter(card => {
+    if (exclude.some(c => isSameCard(c, card))) return false;
+    const letters = formatCard(card, 'letters').toUpperCase();
+    return letters.startsWith(typed) || (card.displayValue === '10' && `T${SUIT_LETTERS[card.suit]}`.startsWith(typed));
+  });
+}
+
+export function describeNotationError(error: NotationError): string {
+  switch (error.kind) {
+    case 'unknown-suit': return `"${error.token}" needs a suit at the end: S, H, D, C or a suit symbol`;
+    case 'unknown-rank': return `"${error.token}" does not start with a rank: A, 2-10 (or T), J, Q or K`;
+    case 'not-in-deck': return `"${error.token}" is not in this deck`;
+    case 'duplicate-card': return `${describeCard(error.card)} appears more than once ("${error.token}")`;
+  }
+}
+
+// --- FORMAT ---
+
+export function formatCard(card: Card, style: NotationStyle = 'symbols'): string {
+  switch (style) {
+    case 'symbols': return `${card.displayValue}${SUIT_GLYPHS[card.suit][0]}`;
+    case 'letters': return `${card.displayValue}${SUIT_LETTERS[card.suit].toLowerCase()}`;
+    case 'words': return card.suit === 'jokers'
+      ? describeCard(card)
+      : `${RANK_WORDS[card.displayValue] ?? card.displayValue} of ${card.suit}`;
+  }
+}
+
+export const formatCards = (cards: Card[], style: NotationStyle = 'symbols') =>
+  cards.map(c => formatCard(c, style)).join(style === 'words' ? ', ' : ' ');
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { type CardValue, type Suit, makeCard } from './cards';
+import { decode, encode } from './fitchCheney';
+import {
+  clickOrder,
+  closestPair,
+  listCandidatePairs,
+  listHideableCards,
+  performerChoice,
+  suitPriority,
+} from './pairStrategies';
+
+const card = (value: number, suit: Suit) => makeCard(suit, value as CardValue);
+
+// Three hearts and two clubs, hearts clicked so that the first two are far apart
+const hand = [card(1, 'hearts'), card(8, 'hearts'), card(9, 'clubs'), card(7, 'hearts'), card(3, 'clubs')];
+
+describe('listCandidatePairs', () => {
+  it('orients every same-suit pair within six steps', () => {
+    const pairs = listCandidatePairs(hand);
+    expect(pairs).toHaveLength(4);
+    pairs.forEach(p => {
+      expect(p.indicator.suit).toBe(p.hidden.suit);
+      expect(p.distance).toBeGreaterThanOrEqual(1);
+      expect(p.distance).toBeLessThanOrEqual(6);
+    });
+  });
+});
+
+describe('pair strategies', () => {
+  it('click order takes the first two clicked cards of the first suit in SUITS order', () => {
+    expect(clickOrder.selectPair(hand)).toEqual({ indicator: card(8, 'hearts'), hidden: card(1, 'hearts'), distance: 6 });
+  });
+
+  it('suit priority takes the closest pair of the preferred suit', () => {
+    expect(suitPriority(['clubs', 'hearts', 'spades', 'diamonds']).selectPair(hand))
+      .toEqual({ indicator: card(3, 'clubs'), hidden: card(9, 'clubs'), distance: 6 });
+    expect(suitPriority().selectPair(hand)).toEqual({ indicator: card(7, 'hearts'), hidden: card(8, 'hearts'), distance: 1 });
+  });
+
+  it('closest pair ignores click order', () => {
+    const reversed = [...hand].reverse();
+    expect(closestPair.selectPair(hand)).toEqual(closestPair.selectPair(reversed));
+    expect(closestPair.selectPair(hand)?.distance).toBe(1);
+  });
+
+  it("performer's choice hides the requested card when it can", () => {
+    expect(listHideableCards(hand)).toEqual([card(1, 'hearts'), card(8, 'hearts'), card(9, 'clubs'), card(7, 'hearts')]);
+    expect(performerChoice(card(1, 'hearts')).selectPair(hand)?.indicator).toEqual(card(8, 'hearts'));
+    expect(performerChoice(card(3, 'clubs')).selectPair(hand)).toBeUndefined();
+  });
+
+  it('reports a missing pair as an encode error', () => {
+    expect(encode(hand, { pairStrategy: performerChoice(card(3, 'clubs')) })).toEqual({
+      ok: false,
+      error: { kind: 'no-pair', strategy: 'performer-choice' },
+    });
+  });
+
+  it('decodes correctly whichever strategy arranged the hand', () => {
+    const strategies = [clickOrder, suitPriority(), closestPair, ...listHideableCards(hand).map(performerChoice)];
+    strategies.forEach(strategy => {
+      const encoded = encode(hand, { pairStrategy: strategy });
+      if (!encoded.ok) throw new Error(`${strategy.id} failed to encode`);
+      expect(encoded.value.strategy).toBe(strategy.id);
+      const decoded = decode(encoded.value.indicator, encoded.value.codeCards);
+      expect(decoded.ok && decoded.value.hidden).toEqual(encoded.value.hidden);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { type Card, type Suit, SUITS, getCardRank, isSameCard } from './cards';
+import { MAX_OFFSET, clockDistance } from './clock';
+
+// --- TYPES ---
+
+export type PairStrategyId = 'click-order' | 'suit-priority' | 'closest-pair' | 'performer-choice';
+
+// An oriented same-suit pair: counting `distance` steps clockwise from the indicator reaches the hidden card.
+export interface Pair {
+  indicator: Card;
+  hidden: Card;
+  distance: number;
+}
+
+// Decides which same-suit pair the assistant uses. The magician never needs to know which
+// strategy was applied: decoding only reads the indicator and the offset, so every strategy
+// that returns a pair from `listCandidatePairs` stays compatible with `decode`.
+export interface PairStrategy {
+  id: PairStrategyId;
+  selectPair: (hand: Card[]) => Pair | undefined;
+}
+
+export const PAIR_STRATEGY_LABELS: Record<PairStrategyId, string> = {
+  'click-order': 'Click order',
+  'suit-priority': 'Suit priority',
+  'closest-pair': 'Smallest distance',
+  'performer-choice': "Performer's choice",
+};
+
+// --- HELPERS ---
+
+// Orients two cards of the same suit so that the clockwise distance is between 1 and 6.
+export function orientPair(a: Card, b: Card): Pair {
+  const distance = clockDistance(a.value, b.value);
+  return distance <= MAX_OFFSET
+    ? { indicator: a, hidden: b, distance }
+    : { indicator: b, hidden: a, distance: clockDistance(b.value, a.value) };
+}
+
+// Every same-suit pair in the hand, oriented. Each unordered pair appears exactly once.
+export function listCandidatePairs(hand: Card[]): Pair[] {
+  const pairs: Pair[] = [];
+  hand.forEach((a, i) => {
+    hand.slice(i + 1).forEach(b => {
+      if (a.suit === b.suit) pairs.push(orientPair(a, b));
+    });
+  });
+  return pairs;
+}
+
+// Smallest distance first, then the lowest-ranked hidden card, so the choice never depends on click order.
+const byDistance = (a: Pair, b: Pair) => a.distance - b.distance || getCardRank(a.hidden) - getCardRank(b.hidden);
+
+// --- STRATEGIES ---
+
+// Original behaviour: first suit in SUITS order with two cards, first two cards of it that were clicked.
+export const clickOrder: PairStrategy = {
+  id: 'click-order',
+  selectPair: hand => {
+    const group = SUITS
+      .map(suit => hand.filter(c => c.suit === suit))
+      .find(g => g.length >= 2);
+    return group && orientPair(group[0], group[1]);
+  },
+};
+
+// First suit in `priority` that holds a pair; within that suit the closest pair wins.
+export const suitPriority = (priority: Suit[] = SUITS): PairStrategy => ({
+  id: 'suit-priority',
+  selectPair: hand => {
+    const pairs = listCandidatePairs(hand);
+    const suit = priority.find(s => pairs.some(p => p.hidden.suit === s));
+    return pairs.filter(p => p.hidden.suit === suit).sort(byDistance)[0];
+  },
+});
+
+// The pair with the smallest clock distance across all suits.
+export const closestPair: PairStrategy = {
+  id: 'closest-pair',
+  selectPair: hand => listCandidatePairs(hand).sort(byDistance)[0],
+};
+
+// The performer names the card to hide; it needs a same-suit partner within 6 steps counter-clockwise.
+export const performerChoice = (hidden: Card): PairStrategy => ({
+  id: 'performer-choice',
+  selectPair: hand => listCandidatePairs(hand).filter(p => isSameCard(p.hidden, hidden)).sort(byDistance)[0],
+});
+
+// Cards the performer may pick as the hidden card under `performerChoice`.
+export function listHideableCards(hand: Card[]): Card[] {
+  const pairs = listCandidatePairs(hand);
+  return hand.filter(c => pairs.some(p => isSameCard(p.hidden, c)));
+}
+
+export const DEFAULT_PAIR_STRATEGY = clickOrder;
@@ -0,0 +1,156 @@
+import { type Card, isSameCard } from './cards';
+import { type CardOrderId, sortByOrder } from './codebook';
+import {
+  type EncodeOptions,
+  type ProtocolError,
+  CODE_SIZE,
+  HAND_SIZE,
+  decodeSequence,
+  encode,
+} from './fitchCheney';
+import { isStandardDeck } from './decks';
+import { type GeneralError, type LayoutMarks, checkGeneralConfig, decodeIndices, encodeIndices } from './general';
+import type { PairStrategyId } from './pairStrategies';
+import { type Result, ok, err } from './result';
+import type { VariantId } from './variants';
+
+// --- TRICK ---
+// One entry point for every protocol the app can perform, working on the cards of a deck.
+
+export type TrickConfig =
+  | ({ protocol: 'classic' } & EncodeOptions)
+  | { protocol: 'general'; handSize: number; variant?: VariantId; order?: CardOrderId };
+
+// What the performer picks in Settings; the rest of a TrickConfig comes from the codebook and pair strategy.
+export type ProtocolChoice = { protocol: 'classic' } | { protocol: 'general'; handSize: number; variant?: VariantId };
+
+export type TrickDetail =
+  // The pair strategy is only known on the assistant's side
+  | { protocol: 'classic'; offset: number; strategy?: PairStrategyId }
+  | { protocol: 'general'; code: number };
+
+export interface Trick {
+  shown: Card[];
+  hidden: Card;
+  // One flag per shown card
+  reversed: boolean[];
+  // Where the hidden card lies face down in the row, for face-down variants
+  hiddenSlot?: number;
+  detail: TrickDetail;
+}
+
+// One position of the row on the table
+export interface Placement {
+  card: Card;
+  reversed: boolean;
+  faceDown: boolean;
+}
+
+export const CLASSIC_TRICK: TrickConfig = { protocol: 'classic' };
+
+export const trickHandSize = (config: TrickConfig) => (config.protocol === 'classic' ? HAND_SIZE : config.handSize);
+
+export const trickShownSize = (config: TrickConfig) => (config.protocol === 'classic' ? CODE_SIZE + 1 : config.handSize - 1);
+
+// Whether the protocol can encode every hand dealt from this deck.
+export function checkDeckSupport(deck: Card[], config: TrickConfig): ProtocolError | undefined {
+  if (config.protocol === 'classic') {
+    return isStandardDeck(deck) ? undefined : { kind: 'not-a-standard-deck', deckSize: deck.length };
+  }
+  const invalid = checkGeneralConfig(generalConfig(config, deck));
+  return invalid && fromGeneralError(invalid, deck);
+}
+
+// The row as the audience sees it: shown cards in order, with the hidden card slotted in face down if the variant does that.
+export function tableLayout(trick: Trick): Placement[] {
+  const row = trick.shown.map((card, i) => ({ card, reversed: trick.reversed[i] ?? false, faceDown: false }));
+  if (trick.hiddenSlot !== undefined) row.splice(trick.hiddenSlot, 0, { card: trick.hidden, reversed: false, faceDown: true });
+  return row;
+}
+
+// --- GENERAL PROTOCOL ON CARDS ---
+// Cards are numbered by their position in the deck under the chosen card order.
+
+const generalConfig = (config: Extract<TrickConfig, { protocol: 'general' }>, deck: Card[]) =>
+  ({ handSize: config.handSize, deckSize: deck.length, variant: config.variant });
+
+function toIndices(cards: Card[], numbered: Card[]): Result<number[], ProtocolError> {
+  const indices: number[] = [];
+  for (const card of cards) {
+    const index = numbered.findIndex(c => isSameCard(c, card));
+    if (index === -1) return err({ kind: 'card-not-in-deck', card });
+    indices.push(index);
+  }
+  return ok(indices);
+}
+
+function fromGeneralError(error: GeneralError, numbered: Card[]): ProtocolError {
+  switch (error.kind) {
+    case 'unsupported-config': {
+      const { handSize, deckSize } = error.config;
+      return { kind: 'unsupported-deck', handSize, deckSize, maxDeckSize: error.maxDeckSize };
+    }
+    case 'wrong-card-count': return error;
+    case 'duplicate-index': return { kind: 'duplicate-card', card: numbered[error.index] };
+    // Indices come from the deck itself, so they are always in range
+    case 'index-out-of-range': return { kind: 'no-such-card' };
+    case 'invalid-hidden-slot': return error;
+    case 'no-such-card': return error;
+  }
+}
+
+// --- PERFORM / REVEAL ---
+
+export function performTrick(hand: Card[], deck: Card[], config: TrickConfig): Result<Trick, ProtocolError> {
+  const unsupported = checkDeckSupport(deck, config);
+  if (unsupported) return err(unsupported);
+
+  if (config.protocol === 'classic') {
+    const missing = hand.find(card => !deck.some(c => isSameCard(c, card)));
+    if (missing) return err({ kind: 'card-not-in-deck', card: missing });
+    const result = encode(hand, config);
+    if (!result.ok) return result;
+    const { indicator, codeCards, hidden, offset, strategy } = result.value;
+    const shown = [indicator, ...codeCards];
+    return ok({ shown, hidden, reversed: shown.map(() => false), detail: { protocol: 'classic', offset, strategy } });
+  }
+
+  const numbered = sortByOrder(deck, config.order ?? 'value-first');
+  const indices = toIndices(hand, numbered);
+  if (!indices.ok) return indices;
+  const result = encodeIndices(indices.value, generalConfig(config, numbered));
+  if (!result.ok) return err(fromGeneralError(result.error, numbered));
+
+  const { shown, hidden, code, reversed, hiddenSlot } = result.value;
+  return ok({
+    shown: shown.map(i => numbered[i]),
+    hidden: numbered[hidden],
+    reversed,
+    hiddenSlot,
+    detail: { protocol: 'general', code },
+  });
+}
+
+// `marks` is how the magician reads reversed cards and the face-down position; the classic protocol ignores them.
+export function revealTrick(shown: Card[], deck: Card[], config: TrickConfig, marks: LayoutMarks = {}): Result<Trick, ProtocolError> {
+  const unsupported = checkDeckSupport(deck, config);
+  if (unsupported) return err(unsupported);
+
+  if (config.protocol === 'classic') {
+    const missing = shown.find(card => !deck.some(c => isSameCard(c, card)));
+    if (missing) return err({ kind: 'card-not-in-deck', card: missing });
+    const result = decodeSequence(shown, config);
+    if (!result.ok) return result;
+    const { hidden, offset } = result.value;
+    return ok({ shown, hidden, reversed: shown.map(() => false), detail: { protocol: 'classic', offset } });
+  }
+
+  const numbered = sortByOrder(deck, config.order ?? 'value-first');
+  const indices = toIndices(shown, numbered);
+  if (!indices.ok) return indices;
+  const result = decodeIndices(indices.value, generalConfig(config, numbered), marks);
+  if (!result.ok) return err(fromGeneralError(result.error, numbered));
+
+  const { hidden, code, reversed, hiddenSlot } = result.value;
+  return ok({ shown, hidden: numbered[hidden], reversed, hiddenSlot, detail: { protocol: 'general', code } });
+}
@@ -0,0 +1,47 @@
+// --- LAYOUT VARIANTS ---
+// Besides their order, the cards on the table can carry extra information: each shown card
+// can be turned end-for-end, and the hidden card can lie face down in any position of the row.
+// Every extra state multiplies the number of messages, so smaller hands cover bigger decks.
+
+export type VariantId = 'order' | 'reversals' | 'face-down' | 'reversals-face-down';
+
+export interface VariantDefinition {
+  id: VariantId;
+  name: string;
+  description: string;
+  reversals: boolean;
+  faceDown: boolean;
+}
+
+export const VARIANTS: Record<VariantId, VariantDefinition> = {
+  'order': {
+    id: 'order',
+    name: 'Order only',
+    description: 'The shown cards are laid out in a row, all upright',
+    reversals: false,
+    faceDown: false,
+  },
+  'reversals': {
+    id: 'reversals',
+    name: 'Reversals',
+    description: 'Each shown card may also be turned end-for-end',
+    reversals: true,
+    faceDown: false,
+  },
+  'face-down': {
+    id: 'face-down',
+    name: 'Face-down card',
+    description: 'The hidden card lies face down in one of the positions of the row',
+    reversals: false,
+    faceDown: true,
+  },
+  'reversals-face-down': {
+    id: 'reversals-face-down',
+    name: 'Reversals and face-down card',
+    description: 'Both: reversed shown cards and a face-down hidden card in the row',
+    reversals: true,
+    faceDown: true,
+  },
+};
+
+export const DEFAULT_VARIANT: VariantId = 'order';
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { makeCard } from './cards';
+import { emptyVerifyStats, mergeVerifyStats, verifyHand, verifyRange } from './verify';
+
+describe('verifyHand', () => {
+  it('checks one ordering per ordered pair of the click-order suit, or every ordering', () => {
+    const hand = [makeCard('clubs', 2), makeCard('hearts', 9), makeCard('hearts', 3), makeCard('hearts', 5), makeCard('spades', 12)];
+    const stats = emptyVerifyStats();
+    verifyHand(hand, stats);
+    expect(stats.failureCount).toBe(0);
+    expect(stats.multiPairHands).toBe(1);
+    expect(stats.byStrategy['click-order'].checked).toBe(6);
+    // The 9 and the 5 can be hidden; the 3 is never within six hours clockwise of another heart
+    expect(stats.byStrategy['performer-choice'].checked).toBe(2);
+
+    const all = emptyVerifyStats();
+    verifyHand(hand, all, { allOrderings: true });
+    expect(all.byStrategy['click-order'].checked).toBe(120);
+    expect(all.failureCount).toBe(0);
+  });
+});
+
+describe('verifyRange', () => {
+  it('finds no failures and splits into ranges that merge to the whole', () => {
+    const whole = verifyRange(0, 3000);
+    const merged = mergeVerifyStats(verifyRange(0, 1000), verifyRange(1000, 2000));
+    expect(whole.failureCount).toBe(0);
+    expect(whole.hands).toBe(3000);
+    expect(merged).toEqual(whole);
+
+    const clickOrder = whole.byStrategy['click-order'];
+    expect(clickOrder.offsets.reduce((a, b) => a + b, 0)).toBe(clickOrder.checked);
+    expect(Object.values(clickOrder.suits).reduce((a, b) => a + b, 0)).toBe(clickOrder.checked);
+  });
+});
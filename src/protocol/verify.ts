@@ -0,0 +1,162 @@
+import { type Card, type Suit, SUITS, createDeck, describeCard, isSameCard } from './cards';
+import { MAX_OFFSET } from './clock';
+import { type Codebook, CLASSIC_CODEBOOK } from './codebook';
+import { binomial, nextCombination, unrankCombination } from './combinations';
+import { HAND_SIZE, decodeSequence, describeProtocolError, encode } from './fitchCheney';
+import {
+  type PairStrategy,
+  type PairStrategyId,
+  PAIR_STRATEGY_LABELS,
+  closestPair,
+  clickOrder,
+  listCandidatePairs,
+  listHideableCards,
+  performerChoice,
+  suitPriority,
+} from './pairStrategies';
+
+// --- EXHAUSTIVE VERIFICATION ---
+// Runs the classic protocol on every hand of a range (in colex order of the standard deck)
+// with every pair strategy, and checks that the magician's decoding names the hidden card.
+// Used by the verify CLI (scripts/verify.ts), which splits the 2,598,960 hands across workers.
+
+export interface StrategyStats {
+  checked: number;
+  failed: number;
+  // Index offset - 1
+  offsets: number[];
+  // Suit of the pair
+  suits: Partial<Record<Suit, number>>;
+  // The pair card that came first in the hand ended up hidden
+  swapped: number;
+}
+
+export interface VerifyFailure {
+  hand: string[];
+  strategy: PairStrategyId;
+  reason: string;
+}
+
+export interface VerifyStats {
+  hands: number;
+  // Hands with more than one same-suit pair the protocol could use
+  multiPairHands: number;
+  byStrategy: Record<PairStrategyId, StrategyStats>;
+  failureCount: number;
+  // The first few, to reproduce
+  failures: VerifyFailure[];
+}
+
+export interface VerifyOptions {
+  codebook?: Codebook;
+  // Click order: try all 120 orderings instead of one per distinct pair
+  allOrderings?: boolean;
+}
+
+export const MAX_REPORTED_FAILURES = 20;
+
+const STRATEGY_IDS = Object.keys(PAIR_STRATEGY_LABELS) as PairStrategyId[];
+
+const emptyStrategyStats = (): StrategyStats => ({ checked: 0, failed: 0, offsets: Array(MAX_OFFSET).fill(0), suits: {}, swapped: 0 });
+
+export const emptyVerifyStats = (): VerifyStats => ({
+  hands: 0,
+  multiPairHands: 0,
+  byStrategy: Object.fromEntries(STRATEGY_IDS.map(id => [id, emptyStrategyStats()])) as Record<PairStrategyId, StrategyStats>,
+  failureCount: 0,
+  failures: [],
+});
+
+export function mergeVerifyStats(a: VerifyStats, b: VerifyStats): VerifyStats {
+  const mergeStrategy = (x: StrategyStats, y: StrategyStats): StrategyStats => ({
+    checked: x.checked + y.checked,
+    failed: x.failed + y.failed,
+    offsets: x.offsets.map((n, i) => n + y.offsets[i]),
+    suits: Object.fromEntries(SUITS.map(s => [s, (x.suits[s] ?? 0) + (y.suits[s] ?? 0)]).filter(([, n]) => n)),
+    swapped: x.swapped + y.swapped,
+  });
+  return {
+    hands: a.hands + b.hands,
+    multiPairHands: a.multiPairHands + b.multiPairHands,
+    byStrategy: Object.fromEntries(STRATEGY_IDS.map(id => [id, mergeStrategy(a.byStrategy[id], b.byStrategy[id])])) as Record<PairStrategyId, StrategyStats>,
+    failureCount: a.failureCount + b.failureCount,
+    failures: [...a.failures, ...b.failures].slice(0, MAX_REPORTED_FAILURES),
+  };
+}
+
+// --- CHECKS ---
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) => permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]));
+}
+
+// Click order only reads which two cards of the first suit with a pair were picked first (the
+// code cards are sorted), so one ordering per ordered pair of that suit covers every ordering.
+function clickOrderings(hand: Card[], allOrderings: boolean): Card[][] {
+  if (allOrderings) return permutations(hand);
+  const group = SUITS.map(suit => hand.filter(c => c.suit === suit)).find(g => g.length >= 2) ?? [];
+  return group.flatMap(a => group.filter(b => b !== a).map(b => [a, b, ...hand.filter(c => c !== a && c !== b)]));
+}
+
+// Encodes as the assistant, decodes the laid-out sequence as the magician, and returns what went wrong, if anything.
+function checkOrdering(hand: Card[], strategy: PairStrategy, codebook: Codebook, stats: StrategyStats, expectedHidden?: Card): string | undefined {
+  stats.checked++;
+  const arrangement = encode(hand, { pairStrategy: strategy, codebook });
+  if (!arrangement.ok) return `encode failed: ${describeProtocolError(arrangement.error)}`;
+  const { indicator, hidden, codeCards, offset } = arrangement.value;
+
+  const laidOut = [indicator, ...codeCards];
+  if (laidOut.some(c => isSameCard(c, hidden)) || !hand.every(c => isSameCard(c, hidden) || laidOut.includes(c))) {
+    return 'the layout and the hidden card are not the hand';
+  }
+  if (expectedHidden && !isSameCard(hidden, expectedHidden)) return `hid the ${describeCard(hidden)} instead of the ${describeCard(expectedHidden)}`;
+
+  const decoded = decodeSequence(laidOut, { codebook });
+  if (!decoded.ok) return `decode failed: ${describeProtocolError(decoded.error)}`;
+  if (!isSameCard(decoded.value.hidden, hidden)) return `decoded the ${describeCard(decoded.value.hidden)} instead of the ${describeCard(hidden)}`;
+
+  stats.offsets[offset - 1]++;
+  stats.suits[hidden.suit] = (stats.suits[hidden.suit] ?? 0) + 1;
+  if (hand.find(c => c === indicator || c === hidden) === hidden) stats.swapped++;
+  return undefined;
+}
+
+export function verifyHand(hand: Card[], stats: VerifyStats, options: VerifyOptions = {}) {
+  const { codebook = CLASSIC_CODEBOOK, allOrderings = false } = options;
+  stats.hands++;
+  if (listCandidatePairs(hand).length > 1) stats.multiPairHands++;
+
+  const runs: [PairStrategyId, Card[], PairStrategy, Card?][] = [
+    ...clickOrderings(hand, allOrderings).map((ordering): [PairStrategyId, Card[], PairStrategy] => ['click-order', ordering, clickOrder]),
+    ['suit-priority', hand, suitPriority()],
+    ['closest-pair', hand, closestPair],
+    ...listHideableCards(hand).map((card): [PairStrategyId, Card[], PairStrategy, Card] => ['performer-choice', hand, performerChoice(card), card]),
+  ];
+
+  for (const [id, ordering, strategy, expectedHidden] of runs) {
+    const strategyStats = stats.byStrategy[id];
+    const reason = checkOrdering(ordering, strategy, codebook, strategyStats, expectedHidden);
+    if (reason === undefined) continue;
+    strategyStats.failed++;
+    stats.failureCount++;
+    if (stats.failures.length < MAX_REPORTED_FAILURES) {
+      stats.failures.push({ hand: ordering.map(c => c.id), strategy: id, reason });
+    }
+  }
+}
+
+// 2,598,960
+export const TOTAL_HANDS = Number(binomial(createDeck().length, HAND_SIZE));
+
+// Verifies `count` hands starting at colex rank `from` of the standard deck.
+export function verifyRange(from: number, count: number, options: VerifyOptions = {}): VerifyStats {
+  const deck = createDeck();
+  const stats = emptyVerifyStats();
+  const positions = unrankCombination(BigInt(from), HAND_SIZE);
+  for (let i = 0; i < count; i++) {
+    verifyHand(positions.map(p => deck[p]), stats, options);
+    if (!nextCombination(positions, deck.length)) break;
+  }
+  return stats;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { DECKS, buildDeck, makeCard } from '../protocol';
+import { type SharedPerformance, MAX_HAND_SIZE, decodePerformance, encodePerformance, readShareHash } from './shareCode';
+
+const hand = [makeCard('clubs', 2), makeCard('hearts', 9), makeCard('hearts', 3), makeCard('clubs', 5), makeCard('spades', 12)];
+
+const performance: SharedPerformance = {
+  deckId: 'standard',
+  protocol: { protocol: 'classic' },
+  pairStrategy: 'click-order',
+  hand,
+  phase: 'stage',
+};
+
+const encode = (shared: SharedPerformance) => {
+  const result = encodePerformance(shared);
+  if (!result.ok) throw new Error('expected a share code');
+  return result.value;
+};
+
+describe('share codes', () => {
+  it('round-trip a performance, keeping the pick order', () => {
+    const code = encode(performance);
+    expect(code).toMatch(/^1[0-9A-Z]{6,16}$/);
+    expect(decodePerformance(code)).toEqual({ ok: true, value: performance });
+
+    const reordered = { ...performance, hand: [...hand].reverse() };
+    expect(encode(reordered)).not.toBe(code);
+    expect(decodePerformance(encode(reordered))).toEqual({ ok: true, value: reordered });
+  });
+
+  it('round-trip partial hands, hidden choices and general protocols', () => {
+    const cases: SharedPerformance[] = [
+      { ...performance, hand: [], phase: 'selection' },
+      { ...performance, hand: hand.slice(0, 2), phase: 'selection', pairStrategy: 'suit-priority' },
+      { ...performance, pairStrategy: 'performer-choice', hidden: hand[2], phase: 'revealed' },
+      {
+        deckId: 'five-suit',
+        protocol: { protocol: 'general', handSize: 5, variant: 'reversals' },
+        pairStrategy: 'click-order',
+        hand: buildDeck(DECKS['five-suit']).slice(-5),
+        phase: 'stage',
+      },
+    ];
+    for (const c of cases) expect(decodePerformance(encode(c))).toEqual({ ok: true, value: c });
+  });
+
+  it('accepts codes typed with dashes, spaces and look-alike letters', () => {
+    const code = encode(performance);
+    const typed = ` ${code.slice(0, 4).toLowerCase()}-${code.slice(4)} `.replace(/1/g, 'l').replace(/0/g, 'o');
+    expect(decodePerformance(typed)).toEqual({ ok: true, value: performance });
+  });
+
+  it('rejects malformed and tampered codes', () => {
+    const code = encode(performance);
+    expect(decodePerformance('')).toEqual({ ok: false, error: { kind: 'malformed' } });
+    expect(decodePerformance(`2${code.slice(1)}`)).toEqual({ ok: false, error: { kind: 'malformed' } });
+    expect(decodePerformance(`${code}U`)).toEqual({ ok: false, error: { kind: 'malformed' } });
+
+    const last = code[code.length - 1];
+    const tampered = code.slice(0, -1) + (last === 'Z' ? 'Y' : 'Z');
+    expect(decodePerformance(tampered)).toEqual({ ok: false, error: { kind: 'checksum' } });
+  });
+
+  it('rejects codes whose protocol cannot run on their deck', () => {
+    const code = encode({ ...performance, deckId: 'piquet', hand: [], phase: 'selection' });
+    expect(decodePerformance(code)).toEqual({
+      ok: false,
+      error: { kind: 'unsupported', error: { kind: 'not-a-standard-deck', deckSize: 32 } },
+    });
+  });
+
+  it('refuses hand sizes the code has no room for', () => {
+    const general: SharedPerformance = { ...performance, protocol: { protocol: 'general', handSize: MAX_HAND_SIZE + 1 }, hand: [], phase: 'selection' };
+    expect(encodePerformance(general)).toEqual({ ok: false, error: { kind: 'hand-size', handSize: MAX_HAND_SIZE + 1 } });
+    const largest = { ...general, protocol: { protocol: 'general' as const, handSize: MAX_HAND_SIZE } };
+    expect(decodePerformance(encode(largest))).toEqual({ ok: true, value: largest });
+  });
+
+  it('reads links with broken escapes as malformed codes', () => {
+    for (const hash of ['#p=%', '#p=%E0%A4%A']) {
+      const code = readShareHash(hash);
+      expect(code).toBeDefined();
+      expect(decodePerformance(code!)).toEqual({ ok: false, error: { kind: 'malformed' } });
+    }
+    expect(readShareHash('#p=1AB%20CD')).toBe('1AB CD');
+    expect(readShareHash('#other')).toBeUndefined();
+  });
+});
@@ -0,0 +1,206 @@
+import {
+  type Card,
+  type DeckId,
+  type PairStrategyId,
+  type ProtocolChoice,
+  type ProtocolError,
+  type Result,
+  type VariantId,
+  DECKS,
+  binomial,
+  buildDeck,
+  checkDeckSupport,
+  describeProtocolError,
+  err,
+  ok,
+  rankCombination,
+  trickHandSize,
+  unrankCombination,
+} from '../protocol';
+
+// --- TYPES ---
+
+export type SharedPhase = 'selection' | 'stage' | 'revealed';
+
+// Everything needed to rebuild a performance on another screen. The arrangement itself is not
+// stored: it is re-run from the hand, so it also follows that screen's codebook.
+export interface SharedPerformance {
+  deckId: DeckId;
+  protocol: ProtocolChoice;
+  pairStrategy: PairStrategyId;
+  // In the order the cards were picked, which the click-order strategy depends on
+  hand: Card[];
+  // The card the performer chose to hide, for the performer's choice strategy
+  hidden?: Card;
+  phase: SharedPhase;
+}
+
+export type ShareError =
+  | { kind: 'malformed' }
+  | { kind: 'checksum' }
+  | { kind: 'out-of-range' }
+  // The code has room for general-protocol hands of MIN_HAND_SIZE to MAX_HAND_SIZE cards
+  | { kind: 'hand-size'; handSize: number }
+  | { kind: 'unsupported'; error: ProtocolError }
+  | { kind: 'incomplete-hand'; cards: number; handSize: number };
+
+// --- FIELDS ---
+// A share code is one number written in mixed radix: each field is a digit whose base is the
+// number of values it can take, so later fields may depend on earlier ones (the hand's
+// combinatorial index is a digit in base C(deck size, cards)). These lists fix each value's
+// digit, so new entries go at the end or old codes change meaning.
+
+const DECK_IDS: DeckId[] = ['standard', 'standard-jokers', 'five-suit', 'piquet'];
+const VARIANT_IDS: VariantId[] = ['order', 'reversals', 'face-down', 'reversals-face-down'];
+const STRATEGY_IDS: PairStrategyId[] = ['click-order', 'suit-priority', 'closest-pair', 'performer-choice'];
+const PHASES: SharedPhase[] = ['selection', 'stage', 'revealed'];
+const MIN_HAND_SIZE = 2;
+const HAND_SIZES = 8;
+export const MAX_HAND_SIZE = MIN_HAND_SIZE + HAND_SIZES - 1;
+
+const VERSION = '1';
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const BASE = BigInt(ALPHABET.length);
+const CHECK_RADIX = 1024n;
+
+// FNV-1a over the payload digits, so a changed or swapped character is caught
+function checksum(payload: bigint): bigint {
+  let hash = 0x811c9dc5;
+  for (const ch of payload.toString(36)) {
+    hash ^= ch.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return BigInt(hash) % CHECK_RADIX;
+}
+
+// --- ENCODE ---
+
+export function encodePerformance(performance: SharedPerformance): Result<string, ShareError> {
+  const { deckId, protocol, hand, hidden, phase } = performance;
+  if (protocol.protocol === 'general' && (protocol.handSize < MIN_HAND_SIZE || protocol.handSize > MAX_HAND_SIZE)) {
+    return err({ kind: 'hand-size', handSize: protocol.handSize });
+  }
+  const deck = buildDeck(DECKS[deckId]);
+  const isClassic = protocol.protocol === 'classic';
+  // Pair strategies only apply to the classic protocol
+  const pairStrategy = isClassic ? performance.pairStrategy : 'click-order';
+  const positions = hand.map(card => deck.findIndex(c => c.id === card.id));
+  const sorted = [...positions].sort((a, b) => a - b);
+
+  const digits: [digit: bigint, radix: bigint][] = [
+    [BigInt(DECK_IDS.indexOf(deckId)), BigInt(DECK_IDS.length)],
+    [isClassic ? 0n : 1n, 2n],
+    [isClassic ? 0n : BigInt(protocol.handSize - MIN_HAND_SIZE), isClassic ? 1n : BigInt(HAND_SIZES)],
+    [isClassic ? 0n : BigInt(VARIANT_IDS.indexOf(protocol.variant ?? 'order')), isClassic ? 1n : BigInt(VARIANT_IDS.length)],
+    [BigInt(STRATEGY_IDS.indexOf(pairStrategy)), isClassic ? BigInt(STRATEGY_IDS.length) : 1n],
+    [BigInt(PHASES.indexOf(phase)), BigInt(PHASES.length)],
+    [BigInt(hand.length), BigInt(trickHandSize(protocol) + 1)],
+    [rankCombination(sorted), binomial(deck.length, hand.length)],
+    // Pick order as a Lehmer code: which of the remaining cards came next
+    ...positions.map((position, i): [bigint, bigint] => {
+      const remaining = sorted.filter(p => !positions.slice(0, i).includes(p));
+      return [BigInt(remaining.indexOf(position)), BigInt(remaining.length)];
+    }),
+    [hidden ? BigInt(hand.findIndex(c => c.id === hidden.id) + 1) : 0n, pairStrategy === 'performer-choice' ? BigInt(hand.length + 1) : 1n],
+  ];
+
+  let payload = 0n;
+  for (const [digit, radix] of digits.reverse()) payload = payload * radix + digit;
+  let value = payload * CHECK_RADIX + checksum(payload);
+
+  let text = '';
+  do {
+    text = ALPHABET[Number(value % BASE)] + text;
+    value /= BASE;
+  } while (value > 0n);
+  return ok(VERSION + text);
+}
+
+// --- DECODE ---
+
+// Upper-cases, drops spaces and dashes, and reads the letters people confuse with digits as those digits.
+export const normalizeShareCode = (input: string) =>
+  input.toUpperCase().replace(/[\s-]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+
+export function decodePerformance(input: string): Result<SharedPerformance, ShareError> {
+  const code = normalizeShareCode(input);
+  if (!code.startsWith(VERSION) || code.length < 2 || ![...code.slice(1)].every(ch => ALPHABET.includes(ch))) {
+    return err({ kind: 'malformed' });
+  }
+
+  const value = [...code.slice(1)].reduce((n, ch) => n * BASE + BigInt(ALPHABET.indexOf(ch)), 0n);
+  let payload = value / CHECK_RADIX;
+  if (checksum(payload) !== value % CHECK_RADIX) return err({ kind: 'checksum' });
+
+  const take = (radix: bigint | number) => {
+    const base = BigInt(radix);
+    const digit = payload % base;
+    payload /= base;
+    return Number(digit);
+  };
+
+  const deckId = DECK_IDS[take(DECK_IDS.length)];
+  const isClassic = take(2) === 0;
+  const handSize = isClassic ? 0 : take(HAND_SIZES) + MIN_HAND_SIZE;
+  const variant = isClassic ? 'order' : VARIANT_IDS[take(VARIANT_IDS.length)];
+  const protocol: ProtocolChoice = isClassic
+    ? { protocol: 'classic' }
+    : { protocol: 'general', handSize, ...(variant !== 'order' && { variant }) };
+  const pairStrategy = isClassic ? STRATEGY_IDS[take(STRATEGY_IDS.length)] : 'click-order';
+  const phase = PHASES[take(PHASES.length)];
+  const cards = take(trickHandSize(protocol) + 1);
+
+  const deck = buildDeck(DECKS[deckId]);
+  const unsupported = checkDeckSupport(deck, protocol);
+  if (unsupported) return err({ kind: 'unsupported', error: unsupported });
+  if (cards > deck.length) return err({ kind: 'out-of-range' });
+
+  const remaining = unrankCombination(payload % binomial(deck.length, cards), cards);
+  payload /= binomial(deck.length, cards);
+  const hand = Array.from({ length: cards }, () => deck[remaining.splice(take(remaining.length), 1)[0]]);
+  const hiddenIndex = pairStrategy === 'performer-choice' ? take(cards + 1) : 0;
+
+  // Anything left over means the number is bigger than any code this version writes
+  if (payload !== 0n) return err({ kind: 'out-of-range' });
+  if (phase !== 'selection' && cards !== trickHandSize(protocol)) {
+    return err({ kind: 'incomplete-hand', cards, handSize: trickHandSize(protocol) });
+  }
+
+  return ok({
+    deckId,
+    protocol,
+    pairStrategy,
+    hand,
+    ...(hiddenIndex > 0 && { hidden: hand[hiddenIndex - 1] }),
+    phase,
+  });
+}
+
+export function describeShareError(error: ShareError): string {
+  switch (error.kind) {
+    case 'malformed': return 'This is not a share code';
+    case 'checksum': return 'This share code has a typo or was changed';
+    case 'out-of-range': return 'This share code does not describe a valid hand';
+    case 'hand-size': return `Hands of ${error.handSize} cards cannot be shared; share codes hold ${MIN_HAND_SIZE} to ${MAX_HAND_SIZE}`;
+    case 'unsupported': return `This share code cannot be performed: ${describeProtocolError(error.error)}`;
+    case 'incomplete-hand': return `This share code has ${error.cards} of the ${error.handSize} cards needed for the stage`;
+  }
+}
+
+// --- LINKS ---
+// A performance lives in the URL hash as `#p=<code>`, so reloading or bookmarking keeps it.
+
+const HASH_PREFIX = '#p=';
+
+export const shareHash = (code: string) => HASH_PREFIX + code;
+
+// A broken escape (a cut-off or edited link) is left as it is, so decoding reports the code as malformed
+export function readShareHash(hash: string): string | undefined {
+  if (!hash.startsWith(HASH_PREFIX)) return undefined;
+  const code = hash.slice(HASH_PREFIX.length);
+  try {
+    return decodeURIComponent(code);
+  } catch {
+    return code;
+  }
+}
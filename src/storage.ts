@@ -0,0 +1,239 @@
+import {
+  type Codebook,
+  type DeckId,
+  type ProtocolChoice,
+  type Suit,
+  type VariantId,
+  CARD_ORDERS,
+  CLASSIC_CODEBOOK,
+  DECKS,
+  DEFAULT_DECK,
+  SUIT_DEFINITIONS,
+  VARIANTS,
+  validateOffsetTable,
+} from './protocol';
+import { type Appearance, CARD_BACKS, CARD_THEMES, DEFAULT_APPEARANCE } from './components/cardThemes';
+import { type LanguageSettings, LOCALES, matchLocale } from './i18n/locales';
+import { type Pacing, DEFAULT_PACING, PACING_LIMITS } from './performance/presentation';
+import { type LoggedPerformance, MAX_LOGGED, fromRecord, toRecord } from './performance/history';
+import { MAX_HAND_SIZE } from './share/shareCode';
+import { type DealState, createSeed } from './practice/deal';
+import { type DrillStats, type Tally, MAX_SESSIONS, emptyDrillStats } from './practice/magicianDrill';
+
+// Everything the performer configures in Settings
+export interface AppSettings {
+  codebook: Codebook;
+  protocol: ProtocolChoice;
+  deckId: DeckId;
+  appearance: Appearance;
+  pacing: Pacing;
+  language: LanguageSettings;
+}
+
+// The app's three screens
+export type Mode = 'assistant' | 'magician' | 'practice';
+export const MODES: Mode[] = ['assistant', 'magician', 'practice'];
+
+// Where the performer left the app, picked up again on the next launch
+export interface SessionState {
+  mode: Mode;
+  activeSuit: Suit;
+}
+
+// --- LOCAL STORAGE ---
+// Everything is namespaced under `cardtrick.` and validated on the way back in,
+// since stored data may come from an older version or have been edited by hand.
+
+const PREFIX = 'cardtrick.';
+
+export function readJson(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw === null ? undefined : JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+export function writeJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch {
+    // Storage can be full or disabled (private browsing); the app keeps working without it.
+  }
+}
+
+function loadCodebook(): Codebook {
+  const stored = readJson('codebook') as Partial<Codebook> | undefined;
+  if (!stored || !Array.isArray(stored.table) || !stored.order || !Object.hasOwn(CARD_ORDERS, stored.order)) {
+    return CLASSIC_CODEBOOK;
+  }
+  const table = validateOffsetTable(stored.table);
+  return table.ok ? { table: table.value, order: stored.order } : CLASSIC_CODEBOOK;
+}
+
+function saveCodebook(codebook: Codebook) {
+  writeJson('codebook', codebook);
+}
+
+function loadProtocolChoice(): ProtocolChoice {
+  const stored = readJson('protocol') as { protocol?: unknown; handSize?: unknown; variant?: unknown } | undefined;
+  const { handSize, variant } = stored ?? {};
+  if (stored?.protocol === 'general' && typeof handSize === 'number' && Number.isInteger(handSize) && handSize >= 2) {
+    // Larger hands would not fit a share code (nor the table)
+    const size = Math.min(handSize, MAX_HAND_SIZE);
+    return typeof variant === 'string' && Object.hasOwn(VARIANTS, variant)
+      ? { protocol: 'general', handSize: size, variant: variant as VariantId }
+      : { protocol: 'general', handSize: size };
+  }
+  return { protocol: 'classic' };
+}
+
+function saveProtocolChoice(choice: ProtocolChoice) {
+  writeJson('protocol', choice);
+}
+
+function loadDeckId(): DeckId {
+  const stored = readJson('deck');
+  return typeof stored === 'string' && Object.hasOwn(DECKS, stored) ? (stored as DeckId) : DEFAULT_DECK;
+}
+
+// Each field falls back on its own, so a theme that was removed keeps the chosen back
+function loadAppearance(): Appearance {
+  const stored = readJson('appearance') as Partial<Record<keyof Appearance, unknown>> | undefined;
+  const { theme, back, fourColour } = stored ?? {};
+  return {
+    theme: typeof theme === 'string' && Object.hasOwn(CARD_THEMES, theme) ? (theme as Appearance['theme']) : DEFAULT_APPEARANCE.theme,
+    back: typeof back === 'string' && Object.hasOwn(CARD_BACKS, back) ? (back as Appearance['back']) : DEFAULT_APPEARANCE.back,
+    fourColour: typeof fourColour === 'boolean' ? fourColour : DEFAULT_APPEARANCE.fourColour,
+  };
+}
+
+function loadPacing(): Pacing {
+  const stored = readJson('pacing') as Partial<Record<keyof Pacing, unknown>> | undefined;
+  const flag = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+  const ms = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+    typeof value === 'number' && value >= min && value <= max ? value : fallback;
+  return {
+    placeOnKeypress: flag(stored?.placeOnKeypress, DEFAULT_PACING.placeOnKeypress),
+    cardIntervalMs: ms(stored?.cardIntervalMs, PACING_LIMITS.cardIntervalMs, DEFAULT_PACING.cardIntervalMs),
+    drumRollMs: ms(stored?.drumRollMs, PACING_LIMITS.drumRollMs, DEFAULT_PACING.drumRollMs),
+    sound: flag(stored?.sound, DEFAULT_PACING.sound),
+  };
+}
+
+// Until the performer picks one, the browser's own language if the app has it
+function loadLanguage(): LanguageSettings {
+  const stored = readJson('language') as Partial<Record<keyof LanguageSettings, unknown>> | undefined;
+  const { locale, speak } = stored ?? {};
+  return {
+    locale: typeof locale === 'string' && Object.hasOwn(LOCALES, locale)
+      ? (locale as LanguageSettings['locale'])
+      : matchLocale(typeof navigator === 'undefined' ? [] : navigator.languages),
+    speak: typeof speak === 'boolean' ? speak : false,
+  };
+}
+
+export function loadSettings(): AppSettings {
+  return {
+    codebook: loadCodebook(),
+    protocol: loadProtocolChoice(),
+    deckId: loadDeckId(),
+    appearance: loadAppearance(),
+    pacing: loadPacing(),
+    language: loadLanguage(),
+  };
+}
+
+export function saveSettings(settings: AppSettings) {
+  saveCodebook(settings.codebook);
+  saveProtocolChoice(settings.protocol);
+  writeJson('deck', settings.deckId);
+  writeJson('appearance', settings.appearance);
+  writeJson('pacing', settings.pacing);
+  writeJson('language', settings.language);
+}
+
+// --- PRACTICE ---
+
+const isTally = (value: unknown): value is Tally => {
+  const t = value as Partial<Tally> | null;
+  return typeof t === 'object' && t !== null
+    && typeof t.attempts === 'number' && typeof t.correct === 'number' && typeof t.totalMs === 'number';
+};
+
+export function loadDrillStats(): DrillStats {
+  const stored = readJson('practice.magician') as Partial<DrillStats> | undefined;
+  const empty = emptyDrillStats();
+  if (!stored || !Array.isArray(stored.byOffset) || stored.byOffset.length !== empty.byOffset.length || !stored.byOffset.every(isTally)) {
+    return empty;
+  }
+  const bySuit = Object.fromEntries(
+    Object.entries(stored.bySuit ?? {}).filter(([suit, t]) => Object.hasOwn(SUIT_DEFINITIONS, suit) && isTally(t))
+  );
+  const sessions = Array.isArray(stored.sessions)
+    ? stored.sessions.filter(s => isTally(s) && typeof s.startedAt === 'number').slice(-MAX_SESSIONS)
+    : [];
+  return { byOffset: stored.byOffset, bySuit, sessions };
+}
+
+export function saveDrillStats(stats: DrillStats) {
+  writeJson('practice.magician', stats);
+}
+
+// --- DEALING ---
+
+// The seeded deck belongs to one deck definition; another deck starts a fresh pass of the same seed.
+export function loadDealState(deckId: DeckId): DealState {
+  const stored = readJson('deal') as { deckId?: unknown; seed?: unknown; dealt?: unknown } | undefined;
+  const { seed, dealt } = stored ?? {};
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed >= 2 ** 32) return { seed: createSeed(), dealt: 0 };
+  const isSameDeck = stored?.deckId === deckId && typeof dealt === 'number' && Number.isInteger(dealt) && dealt >= 0;
+  return { seed, dealt: isSameDeck ? dealt : 0 };
+}
+
+export function saveDealState(deckId: DeckId, state: DealState) {
+  writeJson('deal', { deckId, ...state });
+}
+
+// --- PERFORMANCE HISTORY ---
+
+// Entries that no longer read back (e.g. a deck that was removed) are dropped.
+export function loadPerformanceLog(): LoggedPerformance[] {
+  const stored = readJson('history');
+  if (!Array.isArray(stored)) return [];
+  return stored.slice(0, MAX_LOGGED).flatMap(record => {
+    const entry = typeof record === 'object' && record !== null ? fromRecord(record) : undefined;
+    return entry?.ok ? [entry.value] : [];
+  });
+}
+
+export function savePerformanceLog(log: LoggedPerformance[]) {
+  writeJson('history', log.map(toRecord));
+}
+
+// --- SESSION ---
+// The screen, the suit tab and the hand in progress survive a reload or the installed app being
+// closed. The hand is kept as its share code, the same form a link carries it in.
+
+export function loadSessionState(): SessionState {
+  const stored = readJson('session') as Partial<SessionState> | undefined;
+  return {
+    mode: MODES.find(mode => mode === stored?.mode) ?? 'assistant',
+    activeSuit: typeof stored?.activeSuit === 'string' && Object.hasOwn(SUIT_DEFINITIONS, stored.activeSuit) ? stored.activeSuit : 'spades',
+  };
+}
+
+export function saveSessionState(state: SessionState) {
+  writeJson('session', state);
+}
+
+// The share code is checked when it is decoded, like a link's
+export function loadPerformanceCode(): string | undefined {
+  const stored = readJson('performance');
+  return typeof stored === 'string' ? stored : undefined;
+}
+
+export function savePerformanceCode(code: string | null) {
+  writeJson('performance', code);
+}
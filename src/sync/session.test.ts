@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createDeck, makeCard, performTrick } from '../protocol';
+import {
+  type SyncMessage,
+  createPairingCode,
+  normalizePairingCode,
+  parseSyncMessage,
+  readSequence,
+  sequenceMessage,
+} from './session';
+import { createBroadcastTransport } from './transport';
+
+const deck = createDeck();
+const hand = [makeCard('clubs', 2), makeCard('hearts', 9), makeCard('hearts', 3), makeCard('clubs', 5), makeCard('spades', 12)];
+
+describe('pairing codes', () => {
+  it('creates codes that normalize to themselves', () => {
+    for (let i = 0; i < 20; i++) {
+      const code = createPairingCode();
+      expect(normalizePairingCode(code)).toBe(code);
+    }
+  });
+
+  it('tidies typed codes and rejects invalid ones', () => {
+    expect(normalizePairingCode(' ab-cd ')).toBe('ABCD');
+    expect(normalizePairingCode('ABC')).toBeUndefined();
+    expect(normalizePairingCode('AB0D')).toBeUndefined();
+  });
+});
+
+describe('sequence messages', () => {
+  it('never carry the hidden card', () => {
+    const trick = performTrick(hand, deck, { protocol: 'classic' });
+    if (!trick.ok) throw new Error('expected a trick');
+    const message = sequenceMessage(trick.value);
+    expect(JSON.stringify(message)).not.toContain(trick.value.hidden.id);
+    expect(message.shown).toEqual(trick.value.shown.map(c => c.id));
+  });
+
+  it('are read back into cards of the deck', () => {
+    const read = readSequence({ type: 'sequence', shown: ['clubs-2', 'hearts-9'], reversed: [false, true] }, deck);
+    expect(read.ok && read.value.shown).toEqual([makeCard('clubs', 2), makeCard('hearts', 9)]);
+    expect(readSequence({ type: 'sequence', shown: ['stars-3'], reversed: [] }, deck)).toEqual({
+      ok: false,
+      error: { kind: 'unknown-card', id: 'stars-3' },
+    });
+  });
+
+  it('are validated when they arrive', () => {
+    expect(parseSyncMessage({ type: 'hello', role: 'magician' })).toEqual({ type: 'hello', role: 'magician' });
+    expect(parseSyncMessage({ type: 'hello', role: 'audience' })).toBeUndefined();
+    expect(parseSyncMessage({ type: 'sequence', shown: [1, 2], reversed: [] })).toBeUndefined();
+    expect(parseSyncMessage({ type: 'sequence', shown: ['clubs-2'], reversed: [false], hidden: 'clubs-5' }))
+      .toEqual({ type: 'sequence', shown: ['clubs-2'], reversed: [false] });
+    expect(parseSyncMessage('clear')).toBeUndefined();
+  });
+});
+
+describe('broadcast transport', () => {
+  it('passes messages between two endpoints on the same code', async () => {
+    const assistant = createBroadcastTransport('TEST');
+    const magician = createBroadcastTransport('TEST');
+    const received = new Promise<SyncMessage>(resolve => magician.onMessage(resolve));
+
+    assistant.send({ type: 'clear' });
+    expect(await received).toEqual({ type: 'clear' });
+
+    assistant.close();
+    magician.close();
+  });
+});
@@ -0,0 +1,101 @@
+import { type Card, type LayoutMarks, type Result, type Trick, err, ok } from '../protocol';
+
+// --- TYPES ---
+
+// The assistant picks the hand; the magician's screen only ever receives the shown sequence.
+export type SessionRole = 'assistant' | 'magician';
+
+export type TransportKind = 'broadcast' | 'relay';
+
+export interface SessionSettings {
+  role: SessionRole;
+  code: string;
+  transport: TransportKind;
+  // WebSocket URL of the relay, for the relay transport
+  relayUrl: string;
+}
+
+// Only what the audience can see on the table: card ids in order, reversals and where the face-down card lies.
+export interface SequenceMessage {
+  type: 'sequence';
+  shown: string[];
+  reversed: boolean[];
+  hiddenSlot?: number;
+}
+
+export type SyncMessage =
+  | { type: 'hello'; role: SessionRole }
+  | { type: 'welcome'; role: SessionRole }
+  | { type: 'bye'; role: SessionRole }
+  | SequenceMessage
+  | { type: 'clear' };
+
+export type SyncError =
+  | { kind: 'unknown-card'; id: string };
+
+// --- PAIRING CODES ---
+
+// No 0/O or 1/I/L, so codes survive being read aloud or typed from across a room
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const PAIRING_CODE_LENGTH = 4;
+
+export function createPairingCode(random: () => number = Math.random): string {
+  return Array.from({ length: PAIRING_CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(random() * CODE_ALPHABET.length)]).join('');
+}
+
+// Upper-cases and drops spaces and dashes; returns undefined unless a full valid code remains.
+export function normalizePairingCode(input: string): string | undefined {
+  const code = input.toUpperCase().replace(/[\s-]/g, '');
+  return code.length === PAIRING_CODE_LENGTH && [...code].every(c => CODE_ALPHABET.includes(c)) ? code : undefined;
+}
+
+// --- MESSAGES ---
+
+// Built field by field from the trick so the hidden card can never end up in the message.
+export function sequenceMessage(trick: Trick): SequenceMessage {
+  return {
+    type: 'sequence',
+    shown: trick.shown.map(c => c.id),
+    reversed: [...trick.reversed],
+    ...(trick.hiddenSlot !== undefined && { hiddenSlot: trick.hiddenSlot }),
+  };
+}
+
+export function readSequence(message: SequenceMessage, deck: Card[]): Result<{ shown: Card[]; marks: LayoutMarks }, SyncError> {
+  const shown: Card[] = [];
+  for (const id of message.shown) {
+    const card = deck.find(c => c.id === id);
+    if (!card) return err({ kind: 'unknown-card', id });
+    shown.push(card);
+  }
+  return ok({ shown, marks: { reversed: message.reversed, hiddenSlot: message.hiddenSlot } });
+}
+
+export function describeSyncError(error: SyncError): string {
+  switch (error.kind) {
+    case 'unknown-card': return `The assistant sent a card (${error.id}) that is not in this deck; check both screens use the same settings`;
+  }
+}
+
+const isRole = (value: unknown): value is SessionRole => value === 'assistant' || value === 'magician';
+
+// Messages arrive from another tab or device, so they are checked before use.
+export function parseSyncMessage(data: unknown): SyncMessage | undefined {
+  const m = data as Record<string, unknown> | null;
+  if (typeof m !== 'object' || m === null) return undefined;
+  switch (m.type) {
+    case 'hello':
+    case 'welcome':
+    case 'bye':
+      return isRole(m.role) ? { type: m.type, role: m.role } : undefined;
+    case 'clear':
+      return { type: 'clear' };
+    case 'sequence': {
+      const { shown, reversed, hiddenSlot } = m;
+      if (!Array.isArray(shown) || !shown.every(id => typeof id === 'string')) return undefined;
+      if (!Array.isArray(reversed) || !reversed.every(r => typeof r === 'boolean')) return undefined;
+      if (hiddenSlot !== undefined && !Number.isInteger(hiddenSlot)) return undefined;
+      return { type: 'sequence', shown, reversed, ...(hiddenSlot !== undefined && { hiddenSlot: hiddenSlot as number }) };
+    }
+  }
+}
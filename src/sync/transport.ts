@@ -0,0 +1,118 @@
+import { type SessionSettings, type SyncMessage, parseSyncMessage } from './session';
+
+// --- TRANSPORTS ---
+// A transport joins the room named by the pairing code and passes messages to everyone else
+// in it. Sessions only talk to this interface, so new transports can be added without
+// touching the UI.
+
+export type TransportStatus = 'connecting' | 'open' | 'closed';
+
+export interface Transport {
+  send: (message: SyncMessage) => void;
+  onMessage: (listener: (message: SyncMessage) => void) => () => void;
+  onStatus: (listener: (status: TransportStatus) => void) => () => void;
+  close: () => void;
+}
+
+// Listener bookkeeping shared by every transport
+function createEmitter<T>() {
+  const listeners = new Set<(value: T) => void>();
+  return {
+    emit: (value: T) => listeners.forEach(l => l(value)),
+    subscribe: (listener: (value: T) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
+
+export const DEFAULT_RELAY_PORT = 8787;
+
+// --- SAME BROWSER ---
+
+export function createBroadcastTransport(code: string): Transport {
+  const channel = new BroadcastChannel(`cardtrick-${code}`);
+  const messages = createEmitter<SyncMessage>();
+  const status = createEmitter<TransportStatus>();
+
+  channel.onmessage = event => {
+    const message = parseSyncMessage(event.data);
+    if (message) messages.emit(message);
+  };
+  let closed = false;
+  // A channel is usable at once; report it after listeners had a chance to subscribe
+  queueMicrotask(() => { if (!closed) status.emit('open'); });
+
+  return {
+    send: message => { if (!closed) channel.postMessage(message); },
+    onMessage: messages.subscribe,
+    onStatus: status.subscribe,
+    close: () => {
+      closed = true;
+      channel.close();
+      status.emit('closed');
+    },
+  };
+}
+
+// --- SEPARATE DEVICES ---
+// Talks to the relay in relay/server.js. Dropped connections are retried with a growing delay
+// until the transport is closed; messages sent while disconnected are dropped.
+
+const RETRY_DELAYS_MS = [500, 1000, 2000, 5000];
+
+export function createRelayTransport(relayUrl: string, code: string): Transport {
+  const messages = createEmitter<SyncMessage>();
+  const status = createEmitter<TransportStatus>();
+  let socket: WebSocket | null = null;
+  let retries = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const connect = () => {
+    if (closed) return;
+    status.emit('connecting');
+    const url = new URL(relayUrl);
+    url.searchParams.set('room', code);
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      retries = 0;
+      status.emit('open');
+    };
+    socket.onmessage = event => {
+      try {
+        const message = parseSyncMessage(JSON.parse(String(event.data)));
+        if (message) messages.emit(message);
+      } catch {
+        // Not JSON; ignore anything that is not one of our messages
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      status.emit('connecting');
+      retryTimer = setTimeout(connect, RETRY_DELAYS_MS[Math.min(retries++, RETRY_DELAYS_MS.length - 1)]);
+    };
+  };
+  queueMicrotask(connect);
+
+  return {
+    send: message => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    onMessage: messages.subscribe,
+    onStatus: status.subscribe,
+    close: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+      status.emit('closed');
+    },
+  };
+}
+
+export function createTransport(settings: SessionSettings): Transport {
+  return settings.transport === 'broadcast'
+    ? createBroadcastTransport(settings.code)
+    : createRelayTransport(settings.relayUrl, settings.code);
+}
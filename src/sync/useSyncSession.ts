@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SequenceMessage, SessionSettings, SyncMessage } from './session';
+import { type Transport, type TransportStatus, createTransport } from './transport';
+
+export interface SyncSession {
+  status: TransportStatus;
+  // Whether a screen in the other role has answered on this pairing code
+  peerConnected: boolean;
+  // Last sequence received (magician side); null until one arrives or after the assistant clears it
+  sequence: SequenceMessage | null;
+  // Assistant side: send the current sequence, or clear it; it is resent whenever the magician (re)joins
+  publish: (message: SequenceMessage | { type: 'clear' }) => void;
+}
+
+// Joins the session described by `settings`, or stays disconnected while it is null.
+export function useSyncSession(settings: SessionSettings | null): SyncSession {
+  const [status, setStatus] = useState<TransportStatus>('closed');
+  const [peerConnected, setPeerConnected] = useState(false);
+  const [sequence, setSequence] = useState<SequenceMessage | null>(null);
+  const transportRef = useRef<Transport | null>(null);
+  const publishedRef = useRef<SequenceMessage | { type: 'clear' } | null>(null);
+
+  useEffect(() => {
+    if (!settings) return;
+    const { role } = settings;
+    const transport = createTransport(settings);
+    transportRef.current = transport;
+
+    const offStatus = transport.onStatus(next => {
+      setStatus(next);
+      if (next === 'open') transport.send({ type: 'hello', role });
+      else setPeerConnected(false);
+    });
+
+    const offMessage = transport.onMessage((message: SyncMessage) => {
+      switch (message.type) {
+        case 'hello':
+          if (message.role === role) return;
+          setPeerConnected(true);
+          transport.send({ type: 'welcome', role });
+          // A magician joining late, or reconnecting, gets the sequence already on the table
+          if (role === 'assistant' && publishedRef.current) transport.send(publishedRef.current);
+          return;
+        case 'welcome':
+          if (message.role !== role) setPeerConnected(true);
+          return;
+        case 'bye':
+          if (message.role !== role) setPeerConnected(false);
+          return;
+        case 'sequence':
+          if (role === 'magician') setSequence(message);
+          return;
+        case 'clear':
+          if (role === 'magician') setSequence(null);
+          return;
+      }
+    });
+
+    return () => {
+      transport.send({ type: 'bye', role });
+      offStatus();
+      offMessage();
+      transport.close();
+      transportRef.current = null;
+      setStatus('closed');
+      setPeerConnected(false);
+      setSequence(null);
+    };
+  }, [settings]);
+
+  const publish = useCallback((message: SequenceMessage | { type: 'clear' }) => {
+    publishedRef.current = message;
+    transportRef.current?.send(message);
+  }, []);
+
+  return { status, peerConnected, sequence, publish };
+}
@@ -0,0 +1,18 @@
+import { clsx, type ClassValue } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
+
+// Keyboard shortcuts stay out of the way while a text field has focus
+export const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+
+export type CopyState = 'idle' | 'copied' | 'failed';
+
+// The clipboard API only exists on secure origins, so over plain LAN http (`vite --host`) copying fails
+export function copyText(text: string): Promise<CopyState> {
+  if (!navigator.clipboard) return Promise.resolve('failed');
+  return navigator.clipboard.writeText(text).then(() => 'copied' as const, () => 'failed' as const);
+}
@@ -0,0 +1,181 @@
+import { useId, useReducer, useState } from 'react';
+import { AnimatePresence, LayoutGroup, MotionConfig, motion } from 'framer-motion';
+import { Eye, RefreshCw, Wand2 } from 'lucide-react';
+import { type Card, type Suit, DEFAULT_VARIANT, SUITS, VARIANTS, describeProtocolError, performTrick, tableLayout } from '../protocol';
+import { LocaleContext } from '../i18n/locales';
+import { initialPerformance, performanceReducer } from '../performance/machine';
+import { CardPicker } from '../components/CardPicker';
+import { CardView } from '../components/CardView';
+import { cardLabel, placementLabel } from '../components/labels';
+import { type CardTrickWidgetProps, type ResolvedWidget, type WidgetEvents, describeWidgetError, resolveWidget } from './options';
+
+// --- EMBEDDABLE WIDGET ---
+// The assistant's side of the trick in a box that sits in a host page: no header, no full-page
+// layout, no browser history or local storage. Options that do not make sense are shown as an
+// error in place of the widget. When the deck, protocol or starting hand change, the widget starts
+// again from the new hand; a change of language or read-only keeps the performance.
+
+export function CardTrickWidget({ onArranged, onRevealed, onReset, ...options }: CardTrickWidgetProps) {
+  const resolved = resolveWidget(options);
+  // Shared layout animations stay within this widget when a page has several
+  const layoutGroup = useId();
+
+  if (!resolved.ok) {
+    return (
+      <p role="alert" className="rounded-xl border border-red-500/30 bg-background p-4 text-sm text-red-400">
+        {describeWidgetError(resolved.error)}
+      </p>
+    );
+  }
+
+  return (
+    <MotionConfig reducedMotion="user">
+      <LayoutGroup id={layoutGroup}>
+        <LocaleContext value={resolved.value.locale}>
+          <TrickTable {...resolved.value} onArranged={onArranged} onRevealed={onRevealed} onReset={onReset} />
+        </LocaleContext>
+      </LayoutGroup>
+    </MotionConfig>
+  );
+}
+
+function TrickTable({ deck, config, handSize, hand: startingHand, readOnly, locale, onArranged, onRevealed, onReset }: ResolvedWidget & WidgetEvents) {
+  const [performance, dispatch] = useReducer(performanceReducer, startingHand, hand => performanceReducer(initialPerformance(), { type: 'load', hand }));
+  // Options arrive as fresh objects on every render, so they are compared by content
+  const setup = JSON.stringify([deck.map(c => c.id), config, startingHand.map(c => c.id)]);
+  const [loadedSetup, setLoadedSetup] = useState(setup);
+  if (setup !== loadedSetup) {
+    setLoadedSetup(setup);
+    dispatch({ type: 'load', hand: startingHand });
+  }
+  const [activeSuit, setActiveSuit] = useState<Suit>(SUITS[0]);
+  const { phase, hand, trick, error } = performance;
+  const { strings } = locale;
+  const isRevealed = phase === 'reveal';
+  const showsOrientation = config.protocol === 'general' && VARIANTS[config.variant ?? DEFAULT_VARIANT].reversals;
+
+  const perform = () => {
+    const result = performTrick(hand, deck, config);
+    if (!result.ok) {
+      dispatch({ type: 'failed', error: describeProtocolError(result.error) });
+      return;
+    }
+    dispatch({ type: 'performed', trick: result.value });
+    onArranged?.(result.value);
+  };
+
+  const reveal = () => {
+    if (!trick || phase !== 'stage') return;
+    dispatch({ type: 'reveal' });
+    onRevealed?.(trick);
+  };
+
+  // Back to the hand the widget started with
+  const reset = () => {
+    dispatch({ type: 'load', hand: startingHand });
+    onReset?.();
+  };
+
+  const toggle = (card: Card) => dispatch({ type: 'toggle-card', card, handSize });
+
+  return (
+    <div className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-background p-4 text-white">
+      {phase === 'selection' && (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-slate-400">{strings.yourHand(hand.length, handSize)}</span>
+            {hand.length === handSize && (
+              <button
+                onClick={perform}
+                className="flex items-center gap-1 px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-full"
+              >
+                <Wand2 size={14} />
+                {strings.performMagic}
+              </button>
+            )}
+          </div>
+          <div role="group" aria-label={strings.yourHand(hand.length, handSize)} className="min-h-24 flex flex-wrap items-center gap-3">
+            {hand.length === 0 && <span className="text-slate-600 text-sm italic w-full text-center">{strings.selectCards(handSize)}</span>}
+            <AnimatePresence>
+              {hand.map(card => (
+                <CardView
+                  key={card.id}
+                  card={card}
+                  onClick={readOnly ? undefined : () => toggle(card)}
+                  label={readOnly ? undefined : `${cardLabel(card, locale)}, ${strings.inHand}`}
+                  size="md"
+                />
+              ))}
+            </AnimatePresence>
+          </div>
+          {error && <p role="alert" className="text-xs text-red-400">{error}</p>}
+          {!readOnly && (
+            <div className="h-80 flex flex-col rounded-xl border border-white/10 overflow-hidden">
+              <CardPicker
+                deck={deck}
+                activeSuit={activeSuit}
+                onSuitChange={setActiveSuit}
+                isSelected={card => hand.some(c => c.id === card.id)}
+                onCardClick={toggle}
+                globalShortcuts={false}
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {phase !== 'selection' && trick && (
+        <div className="flex flex-col items-center gap-6">
+          <h2 className="text-indigo-300 text-sm font-bold tracking-widest uppercase opacity-80">{strings.theSequence}</h2>
+          <div role="list" aria-label={strings.theSequence} className="flex flex-wrap items-center justify-center gap-3">
+            {tableLayout(trick).map((placement, idx) => (
+              <motion.div
+                key={placement.card.id}
+                role="listitem"
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.2 + idx * 0.2 }}
+              >
+                <CardView
+                  card={placement.faceDown && !isRevealed ? undefined : placement.card}
+                  isFaceDown={placement.faceDown && !isRevealed}
+                  orientation={showsOrientation && !placement.faceDown ? (placement.reversed ? 'reversed' : 'upright') : undefined}
+                  label={placementLabel(placement, idx, trick, isRevealed, locale)}
+                  size="md"
+                />
+              </motion.div>
+            ))}
+          </div>
+
+          {trick.hiddenSlot === undefined && (
+            <div className="flex flex-col items-center gap-2">
+              <h2 className="text-indigo-400 text-sm font-bold tracking-widest uppercase opacity-80">{strings.thePrediction}</h2>
+              {isRevealed
+                ? <CardView card={trick.hidden} label={`${cardLabel(trick.hidden, locale)}, ${strings.hiddenCard}`} size="md" />
+                : <CardView isFaceDown label={strings.hiddenFaceDown} size="md" />}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            {!isRevealed && (
+              <button
+                onClick={reveal}
+                className="flex items-center gap-2 px-5 py-2 bg-white text-black text-sm font-bold rounded-full hover:scale-105 active:scale-95 transition-transform"
+              >
+                <Eye size={16} />
+                {strings.reveal}
+              </button>
+            )}
+            <button
+              onClick={reset}
+              className="flex items-center gap-2 px-3 py-2 text-xs rounded-full text-slate-400 hover:text-white hover:bg-white/10"
+            >
+              <RefreshCw size={14} />
+              {strings.startOver}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { createElement } from 'react';
+import { type Root, createRoot } from 'react-dom/client';
+import type { Trick } from '../protocol';
+import { CardTrickWidget } from './CardTrickWidget';
+import { type WidgetOptions, WIDGET_ATTRIBUTES, readWidgetAttributes } from './options';
+import { widgetStyles } from './styles';
+
+// --- CUSTOM ELEMENT ---
+// <card-trick deck="standard" variant="classic" hand="2c 9h 3h 5c Qs" read-only></card-trick>
+//
+// Renders CardTrickWidget into its own shadow root with the widget's stylesheet, so it looks the
+// same on any page. It fires `arranged` and `revealed` (detail: { trick }) and `reset`, all
+// bubbling out of the shadow root. Attribute changes are passed on to the widget as new options.
+
+export interface CardTrickEventDetail {
+  trick: Trick;
+}
+
+// The class is made when the element is defined rather than at import, so the library also
+// loads where there is no DOM (server rendering, Node scripts using the protocol).
+const createElementClass = () => class CardTrickElement extends HTMLElement {
+  static observedAttributes = [...WIDGET_ATTRIBUTES];
+
+  #root: Root | null = null;
+
+  connectedCallback() {
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = widgetStyles;
+    const container = document.createElement('div');
+    shadow.replaceChildren(style, container);
+    this.#root = createRoot(container);
+    this.#render();
+  }
+
+  disconnectedCallback() {
+    this.#root?.unmount();
+    this.#root = null;
+  }
+
+  attributeChangedCallback() {
+    this.#render();
+  }
+
+  #emit(type: 'arranged' | 'revealed' | 'reset', detail?: CardTrickEventDetail) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  #render() {
+    this.#root?.render(createElement(CardTrickWidget, {
+      // Attribute text is checked by resolveWidget like any other options
+      ...(readWidgetAttributes(this) as WidgetOptions),
+      onArranged: trick => this.#emit('arranged', { trick }),
+      onRevealed: trick => this.#emit('revealed', { trick }),
+      onReset: () => this.#emit('reset'),
+    }));
+  }
+};
+
+export type CardTrickElement = InstanceType<ReturnType<typeof createElementClass>>;
+
+// Safe to call more than once, e.g. from several bundles on one page
+export function defineCardTrickElement(name = 'card-trick') {
+  if (!customElements.get(name)) customElements.define(name, createElementClass());
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'card-trick': CardTrickElement;
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { makeCard } from '../protocol';
+import { type WidgetInput, describeWidgetError, resolveWidget } from './options';
+
+const resolve = (input: WidgetInput) => {
+  const result = resolveWidget(input);
+  if (!result.ok) throw new Error(describeWidgetError(result.error));
+  return result.value;
+};
+const errorKind = (input: WidgetInput) => {
+  const result = resolveWidget(input);
+  return result.ok ? undefined : result.error.kind;
+};
+
+describe('resolveWidget', () => {
+  it('defaults to the classic trick on the standard deck with an empty hand', () => {
+    const widget = resolve({});
+    expect(widget.config).toEqual({ protocol: 'classic' });
+    expect(widget.deck).toHaveLength(52);
+    expect(widget.handSize).toBe(5);
+    expect(widget.hand).toEqual([]);
+    expect(widget.readOnly).toBe(false);
+    expect(widget.locale.id).toBe('en');
+  });
+
+  it('reads a starting hand and a general variant', () => {
+    expect(resolve({ hand: '2c 9h Qs' }).hand).toEqual([makeCard('clubs', 2), makeCard('hearts', 9), makeCard('spades', 12)]);
+    const general = resolve({ deck: 'piquet', variant: 'reversals', handSize: 4, readOnly: true, locale: 'fr' });
+    expect(general.config).toEqual({ protocol: 'general', handSize: 4, variant: 'reversals' });
+    expect(general.handSize).toBe(4);
+    expect(general.readOnly).toBe(true);
+  });
+
+  it('reports options that do not fit', () => {
+    expect(errorKind({ deck: 'tarot' })).toBe('unknown-deck');
+    expect(errorKind({ variant: 'upside-down' })).toBe('unknown-variant');
+    expect(errorKind({ variant: 'order', handSize: NaN })).toBe('invalid-hand-size');
+    expect(errorKind({ locale: 'xx' })).toBe('unknown-locale');
+    // Names inherited from Object are not decks or languages
+    expect(errorKind({ deck: 'constructor' })).toBe('unknown-deck');
+    expect(errorKind({ locale: 'toString' })).toBe('unknown-locale');
+    expect(errorKind({ hand: '2c 2c' })).toBe('invalid-hand');
+    expect(errorKind({ hand: '2c 3c 4c 5c 6c 7c' })).toBe('hand-too-large');
+    // The classic protocol needs exactly the 52 standard cards
+    expect(errorKind({ deck: 'piquet' })).toBe('unsupported');
+  });
+});
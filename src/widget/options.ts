@@ -0,0 +1,122 @@
+import {
+  type Card,
+  type DeckId,
+  type NotationError,
+  type ProtocolError,
+  type Result,
+  type Trick,
+  type TrickConfig,
+  type VariantId,
+  DECKS,
+  DEFAULT_DECK,
+  VARIANTS,
+  buildDeck,
+  checkDeckSupport,
+  describeNotationError,
+  describeProtocolError,
+  err,
+  ok,
+  parseCards,
+  trickHandSize,
+} from '../protocol';
+import { type Locale, type LocaleId, DEFAULT_LANGUAGE, LOCALES } from '../i18n/locales';
+
+// --- WIDGET OPTIONS ---
+// What a host page sets on the embedded trick, as React props or as attributes of the custom
+// element. Everything is optional; attributes arrive as text, so all of it is checked here.
+
+// The classic Fitch Cheney protocol, or the general protocol with one of its variants
+export type WidgetVariant = 'classic' | VariantId;
+
+export interface WidgetOptions {
+  deck?: DeckId;
+  variant?: WidgetVariant;
+  // Cards in hand for the general protocol; the classic protocol always takes five
+  handSize?: number;
+  // The starting hand in card notation, e.g. "2c 9h 3h 5c Qs"
+  hand?: string;
+  // The hand cannot be changed; the viewer can only perform and reveal
+  readOnly?: boolean;
+  locale?: LocaleId;
+}
+
+export interface WidgetEvents {
+  onArranged?: (trick: Trick) => void;
+  onRevealed?: (trick: Trick) => void;
+  onReset?: () => void;
+}
+
+export type CardTrickWidgetProps = WidgetOptions & WidgetEvents;
+
+// Options as they come in, before checking
+export type WidgetInput = { [K in keyof WidgetOptions]?: unknown };
+
+export interface ResolvedWidget {
+  deck: Card[];
+  config: TrickConfig;
+  handSize: number;
+  hand: Card[];
+  readOnly: boolean;
+  locale: Locale;
+}
+
+export type WidgetError =
+  | { kind: 'unknown-deck'; value: string }
+  | { kind: 'unknown-variant'; value: string }
+  | { kind: 'invalid-hand-size'; value: string }
+  | { kind: 'unknown-locale'; value: string }
+  | { kind: 'invalid-hand'; error: NotationError }
+  | { kind: 'hand-too-large'; cards: number; handSize: number }
+  | { kind: 'unsupported'; error: ProtocolError };
+
+export const WIDGET_ATTRIBUTES = ['deck', 'variant', 'hand-size', 'hand', 'read-only', 'locale'] as const;
+
+const DEFAULT_HAND_SIZE = 5;
+
+// Attribute text to options; a present `read-only` attribute means true, as with `disabled`
+export function readWidgetAttributes(element: Element): WidgetInput {
+  const text = (name: (typeof WIDGET_ATTRIBUTES)[number]) => element.getAttribute(name) ?? undefined;
+  const handSize = text('hand-size');
+  return {
+    deck: text('deck'),
+    variant: text('variant'),
+    handSize: handSize === undefined ? undefined : handSize.trim() === '' ? NaN : Number(handSize),
+    hand: text('hand'),
+    readOnly: element.hasAttribute('read-only') && element.getAttribute('read-only') !== 'false',
+    locale: text('locale'),
+  };
+}
+
+export function resolveWidget(input: WidgetInput): Result<ResolvedWidget, WidgetError> {
+  const { deck: deckId = DEFAULT_DECK, variant = 'classic', handSize: size = DEFAULT_HAND_SIZE, hand: text = '', locale = DEFAULT_LANGUAGE.locale } = input;
+  if (typeof deckId !== 'string' || !Object.hasOwn(DECKS, deckId)) return err({ kind: 'unknown-deck', value: String(deckId) });
+  if (typeof variant !== 'string' || (variant !== 'classic' && !Object.hasOwn(VARIANTS, variant))) return err({ kind: 'unknown-variant', value: String(variant) });
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < 2) return err({ kind: 'invalid-hand-size', value: String(size) });
+  if (typeof locale !== 'string' || !Object.hasOwn(LOCALES, locale)) return err({ kind: 'unknown-locale', value: String(locale) });
+
+  const deck = buildDeck(DECKS[deckId as DeckId]);
+  const config: TrickConfig = variant === 'classic'
+    ? { protocol: 'classic' }
+    : { protocol: 'general', handSize: size, variant: variant as VariantId };
+  const unsupported = checkDeckSupport(deck, config);
+  if (unsupported) return err({ kind: 'unsupported', error: unsupported });
+
+  const handSize = trickHandSize(config);
+  const hand = typeof text === 'string' && text.trim() !== '' ? parseCards(text, deck) : ok<Card[]>([]);
+  if (!hand.ok) return err({ kind: 'invalid-hand', error: hand.error });
+  if (hand.value.length > handSize) return err({ kind: 'hand-too-large', cards: hand.value.length, handSize });
+
+  return ok({ deck, config, handSize, hand: hand.value, readOnly: input.readOnly === true, locale: LOCALES[locale as LocaleId] });
+}
+
+export function describeWidgetError(error: WidgetError): string {
+  switch (error.kind) {
+    case 'unknown-deck': return `Unknown deck "${error.value}"; use one of ${Object.keys(DECKS).join(', ')}`;
+    case 'unknown-variant': return `Unknown variant "${error.value}"; use classic or one of ${Object.keys(VARIANTS).join(', ')}`;
+    case 'invalid-hand-size': return `Hand size must be a whole number of at least 2, not "${error.value}"`;
+    case 'unknown-locale': return `Unknown language "${error.value}"; use one of ${Object.keys(LOCALES).join(', ')}`;
+    case 'invalid-hand': return describeNotationError(error.error);
+    case 'hand-too-large': return `The starting hand has ${error.cards} cards; this trick takes ${error.handSize}`;
+    case 'unsupported': return describeProtocolError(error.error);
+  }
+}
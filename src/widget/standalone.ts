@@ -0,0 +1,5 @@
+// Entry of the standalone script (card-trick-element.js): React and everything else bundled in,
+// and <card-trick> defined as soon as the script loads.
+import { defineCardTrickElement } from './element';
+
+defineCardTrickElement();
@@ -0,0 +1,3 @@
+// The widget's compiled stylesheet as text, for the custom element's shadow root and for React
+// hosts that render CardTrickWidget inside a shadow root of their own
+export { default as widgetStyles } from './widget.css?inline';
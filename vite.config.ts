@@ -1,7 +1,38 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { offlineApp } from './scripts/pwa'
+
+// The library (`npm run build:lib`) is two more builds into dist-lib: `--mode lib` for pages that
+// bring their own React, and `--mode element` for a standalone <card-trick> script.
+const LIBRARY_OUT_DIR = 'dist-lib'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  if (mode === 'lib') {
+    return {
+      plugins: [react()],
+      build: {
+        outDir: LIBRARY_OUT_DIR,
+        copyPublicDir: false,
+        lib: { entry: 'src/lib.ts', formats: ['es'], fileName: () => 'card-trick.js' },
+        rollupOptions: { external: [/^react(-dom)?(\/.*)?$/] },
+      },
+    }
+  }
+  if (mode === 'element') {
+    return {
+      plugins: [react()],
+      // React is bundled in, so its development checks must be compiled out here
+      define: { 'process.env.NODE_ENV': JSON.stringify('production') },
+      build: {
+        outDir: LIBRARY_OUT_DIR,
+        emptyOutDir: false,
+        copyPublicDir: false,
+        lib: { entry: 'src/widget/standalone.ts', name: 'CardTrick', formats: ['iife'], fileName: () => 'card-trick-element.js' },
+      },
+    }
+  }
+  return {
+    plugins: [react(), offlineApp()],
+  }
 })